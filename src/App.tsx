@@ -5,11 +5,20 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
 import { ThemeProvider } from "@/hooks/useTheme";
+import { NotificationsProvider } from "@/hooks/useNotifications";
+import { useRecurringSync } from "@/hooks/useRecurringSync";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
+import Challenges from "./pages/Challenges";
 import Challenge from "./pages/Challenge";
 import Categories from "./pages/Categories";
+import Budgets from "./pages/Budgets";
 import Expenses from "./pages/Expenses";
+import Income from "./pages/Income";
+import Accounts from "./pages/Accounts";
+import Data from "./pages/Data";
+import Recurring from "./pages/Recurring";
+import Rules from "./pages/Rules";
 import NotFound from "./pages/NotFound";
 import { Loader2 } from "lucide-react";
 
@@ -17,8 +26,9 @@ const queryClient = new QueryClient();
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
+  const syncing = useRecurringSync(user?.id);
 
-  if (loading) {
+  if (loading || syncing) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <Loader2 className="w-8 h-8 animate-spin text-primary" />
@@ -38,9 +48,16 @@ function AppRoutes() {
     <Routes>
       <Route path="/auth" element={<Auth />} />
       <Route path="/" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
-      <Route path="/challenge" element={<ProtectedRoute><Challenge /></ProtectedRoute>} />
+      <Route path="/challenge" element={<ProtectedRoute><Challenges /></ProtectedRoute>} />
+      <Route path="/challenge/:id" element={<ProtectedRoute><Challenge /></ProtectedRoute>} />
       <Route path="/categories" element={<ProtectedRoute><Categories /></ProtectedRoute>} />
+      <Route path="/budgets" element={<ProtectedRoute><Budgets /></ProtectedRoute>} />
       <Route path="/expenses" element={<ProtectedRoute><Expenses /></ProtectedRoute>} />
+      <Route path="/income" element={<ProtectedRoute><Income /></ProtectedRoute>} />
+      <Route path="/accounts" element={<ProtectedRoute><Accounts /></ProtectedRoute>} />
+      <Route path="/recurring" element={<ProtectedRoute><Recurring /></ProtectedRoute>} />
+      <Route path="/rules" element={<ProtectedRoute><Rules /></ProtectedRoute>} />
+      <Route path="/data" element={<ProtectedRoute><Data /></ProtectedRoute>} />
       <Route path="*" element={<NotFound />} />
     </Routes>
   );
@@ -50,13 +67,15 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider>
       <AuthProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <AppRoutes />
-          </BrowserRouter>
-        </TooltipProvider>
+        <NotificationsProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <AppRoutes />
+            </BrowserRouter>
+          </TooltipProvider>
+        </NotificationsProvider>
       </AuthProvider>
     </ThemeProvider>
   </QueryClientProvider>
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Radix Select doesn't accept an empty string as an item value
+const NO_ACCOUNT = 'none';
+
+interface AccountOption {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface AccountSelectProps {
+  value: string;
+  onValueChange: (accountId: string) => void;
+}
+
+// Lists the user's active accounts; an empty value means "no account"
+export function AccountSelect({ value, onValueChange }: AccountSelectProps) {
+  const { user } = useAuth();
+  const [accounts, setAccounts] = useState<AccountOption[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('accounts')
+      .select('id, name, color')
+      .eq('user_id', user.id)
+      .eq('is_archived', false)
+      .order('created_at')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching accounts:', error);
+          return;
+        }
+        setAccounts(data);
+      });
+  }, [user]);
+
+  return (
+    <Select
+      value={value || NO_ACCOUNT}
+      onValueChange={(accountId) => onValueChange(accountId === NO_ACCOUNT ? '' : accountId)}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_ACCOUNT}>Sem conta</SelectItem>
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            <div className="flex items-center gap-2">
+              <div
+                className="w-3 h-3 rounded-full"
+                style={{ backgroundColor: account.color }}
+              />
+              {account.name}
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChevronLeft, ChevronRight, CreditCard } from 'lucide-react';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import { toISODate } from '@/lib/dates';
+import { BillingCycle, InvoiceItem, getInvoiceKey, groupByInvoice } from '@/lib/creditCard';
+
+interface CardInvoicesProps {
+  name: string;
+  cycle: BillingCycle;
+  expenses: InvoiceItem[];
+}
+
+export function CardInvoices({ name, cycle, expenses }: CardInvoicesProps) {
+  const invoices = groupByInvoice(expenses, cycle);
+  const currentKey = getInvoiceKey(toISODate(new Date()), cycle);
+  const [index, setIndex] = useState(0);
+
+  // Open on the invoice that is currently accumulating purchases
+  useEffect(() => {
+    const current = invoices.findIndex(invoice => invoice.key >= currentKey);
+    setIndex(current === -1 ? Math.max(invoices.length - 1, 0) : current);
+  }, [name, invoices.length, currentKey]);
+
+  const invoice = invoices[index];
+  const upcomingTotal = invoices
+    .filter(i => i.key > currentKey)
+    .reduce((sum, i) => sum + i.total, 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <CreditCard className="w-5 h-5 text-primary" />
+          Faturas • {name}
+        </CardTitle>
+        {upcomingTotal > 0 && (
+          <span className="text-sm text-muted-foreground">
+            {formatCurrency(upcomingTotal)} em faturas futuras
+          </span>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!invoice ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Nenhuma compra lançada neste cartão
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIndex(i => i - 1)}
+                disabled={index === 0}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <div className="text-center">
+                <div className="flex items-center justify-center gap-2">
+                  <p className="font-semibold">{invoice.label}</p>
+                  {invoice.key === currentKey && <Badge variant="secondary">Aberta</Badge>}
+                  {invoice.key < currentKey && <Badge variant="outline">Fechada</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Fecha em {formatDate(`${invoice.closingDate}T00:00:00`)} • vence em {formatDate(`${invoice.dueDate}T00:00:00`)}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIndex(i => i + 1)}
+                disabled={index === invoices.length - 1}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <p className="text-3xl font-bold text-center">{formatCurrency(invoice.total)}</p>
+
+            <div className="divide-y divide-border">
+              {invoice.items.map((item) => (
+                <div key={item.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="text-muted-foreground w-24 shrink-0">
+                      {formatDate(`${item.expense_date}T00:00:00`)}
+                    </span>
+                    <span className="font-medium truncate">{item.description || 'Despesa'}</span>
+                  </div>
+                  <span className="font-semibold shrink-0">{formatCurrency(Number(item.amount))}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
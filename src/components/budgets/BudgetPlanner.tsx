@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addMonths, format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarRange, Copy, Loader2, Percent } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatters';
+import { toMonthKey } from '@/lib/dates';
+import {
+  BUDGET_PERIOD_LABELS,
+  BudgetCategory,
+  BudgetPeriod,
+  CategoryBudget,
+  clearMonthlyBudgets,
+  getBudgetForMonth,
+  saveMonthlyBudgets,
+} from '@/lib/budgets';
+import { toast } from 'sonner';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface BudgetPlannerProps {
+  categories: BudgetCategory[];
+  history: CategoryBudget[];
+  onSaved: () => void;
+}
+
+const PLANNABLE_MONTHS = 3;
+
+function monthLabel(month: string, pattern = "MMMM 'de' yyyy") {
+  const label = format(parseISO(`${month}-01`), pattern, { locale: ptBR });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function shiftMonth(month: string, amount: number) {
+  return toMonthKey(addMonths(parseISO(`${month}-01`), amount));
+}
+
+export function BudgetPlanner({ categories, history, onSaved }: BudgetPlannerProps) {
+  const { user } = useAuth();
+  const currentMonth = toMonthKey(new Date());
+  const [month, setMonth] = useState(() => shiftMonth(currentMonth, 1));
+  // Amounts typed for the month; blank keeps the budget inherited from before
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [adjustment, setAdjustment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const previousMonth = shiftMonth(month, -1);
+  const months = Array.from({ length: PLANNABLE_MONTHS }, (_, index) => shiftMonth(currentMonth, index));
+
+  const rows = useMemo(() => categories.map(category => {
+    const categoryHistory = history.filter(entry => entry.category_id === category.id);
+    return {
+      category,
+      planned: categoryHistory.find(entry => toMonthKey(entry.month) === month),
+      inherited: getBudgetForMonth(category, categoryHistory, month),
+      previous: getBudgetForMonth(category, categoryHistory, previousMonth),
+    };
+  }), [categories, history, month, previousMonth]);
+
+  useEffect(() => {
+    setValues(Object.fromEntries(rows.map(row => [row.category.id, row.planned ? String(row.planned.amount) : ''])));
+    setAdjustment('');
+  }, [rows]);
+
+  const amountFor = (row: typeof rows[number]) => {
+    const value = values[row.category.id];
+    return value ? Number(value) : row.inherited;
+  };
+
+  const copyPrevious = () => {
+    setValues(Object.fromEntries(rows.map(row => [row.category.id, String(row.previous)])));
+  };
+
+  const applyAdjustment = () => {
+    const percent = Number(adjustment);
+    if (!adjustment || Number.isNaN(percent)) {
+      toast.error('Informe o percentual de ajuste');
+      return;
+    }
+
+    setValues(Object.fromEntries(rows.map(row => {
+      const adjusted = Math.round(amountFor(row) * (1 + percent / 100) * 100) / 100;
+      return [row.category.id, String(Math.max(adjusted, 0))];
+    })));
+  };
+
+  const handleSave = async () => {
+    const budgets = rows
+      .filter(row => values[row.category.id] !== '')
+      .map(row => ({ category_id: row.category.id, amount: Number(values[row.category.id]) }));
+    const cleared = rows
+      .filter(row => row.planned && values[row.category.id] === '')
+      .map(row => row.category.id);
+
+    if (budgets.some(budget => Number.isNaN(budget.amount) || budget.amount < 0)) {
+      toast.error('Informe valores válidos');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveMonthlyBudgets(user!.id, month, budgets);
+      await clearMonthlyBudgets(user!.id, month, cleared);
+      toast.success('Orçamentos salvos!');
+      onSaved();
+    } catch (error) {
+      toast.error('Erro ao salvar orçamentos');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalPrevious = rows.reduce((sum, row) => sum + row.previous, 0);
+  const totalPlanned = rows.reduce((sum, row) => sum + amountFor(row), 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarRange className="w-5 h-5 text-primary" />
+            Planejamento
+          </CardTitle>
+          <CardDescription>
+            Categorias sem valor continuam com o orçamento do mês anterior
+          </CardDescription>
+        </div>
+        <Select value={month} onValueChange={setMonth}>
+          <SelectTrigger className="w-full sm:w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {months.map((key) => (
+              <SelectItem key={key} value={key}>{monthLabel(key)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+          <Button variant="outline" className="gap-2" onClick={copyPrevious}>
+            <Copy className="w-4 h-4" />
+            Copiar de {monthLabel(previousMonth, 'MMMM').toLowerCase()}
+          </Button>
+          <div className="flex items-end gap-2 sm:ml-auto">
+            <div className="space-y-2">
+              <Label>Ajustar todos (%)</Label>
+              <Input
+                type="number"
+                step="0.1"
+                value={adjustment}
+                onChange={(e) => setAdjustment(e.target.value)}
+                placeholder="Ex: 5 ou -10"
+                className="w-36"
+              />
+            </div>
+            <Button variant="outline" className="gap-2" onClick={applyAdjustment}>
+              <Percent className="w-4 h-4" />
+              Aplicar
+            </Button>
+          </div>
+        </div>
+
+        <div className="rounded-xl border border-border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Categoria</TableHead>
+                <TableHead className="text-right">{monthLabel(previousMonth, 'MMMM')}</TableHead>
+                <TableHead className="w-40 text-right">Planejado</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.category.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: row.category.color }} />
+                      <span className="font-medium">{row.category.name}</span>
+                      {row.category.budget_period !== 'monthly' && (
+                        <span className="text-xs text-muted-foreground">
+                          {BUDGET_PERIOD_LABELS[row.category.budget_period as BudgetPeriod]}
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {formatCurrency(row.previous)}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={values[row.category.id] ?? ''}
+                      onChange={(e) => setValues(prev => ({ ...prev, [row.category.id]: e.target.value }))}
+                      placeholder={row.inherited.toFixed(2)}
+                      className="text-right"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{formatCurrency(totalPrevious)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(totalPlanned)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+
+        <Button onClick={handleSave} className="w-full sm:w-auto" disabled={saving}>
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Salvar orçamentos
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
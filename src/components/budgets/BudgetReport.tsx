@@ -0,0 +1,227 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addMonths, endOfMonth, parseISO } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { BarChart3, Loader2 } from 'lucide-react';
+import { formatCurrency, formatPercent } from '@/lib/formatters';
+import { getLastMonths, toISODate } from '@/lib/dates';
+import {
+  BudgetCategory,
+  CategoryBudget,
+  getBudgetForMonth,
+  getBudgetWindow,
+  formatBudgetWindow,
+} from '@/lib/budgets';
+import { cn } from '@/lib/utils';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface BudgetReportProps {
+  categories: BudgetCategory[];
+  history: CategoryBudget[];
+}
+
+interface ReportExpense {
+  category_id: string | null;
+  amount: number;
+  expense_date: string;
+}
+
+const REPORT_MONTHS = 12;
+
+export function BudgetReport({ categories, history }: BudgetReportProps) {
+  const { user } = useAuth();
+  const months = useMemo(() => getLastMonths(REPORT_MONTHS, addMonths(new Date(), -1)).reverse(), []);
+  const [month, setMonth] = useState(months[0].key);
+  const [expenses, setExpenses] = useState<ReportExpense[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Only monthly budgets line up with a month; each one is compared over its
+  // own period, which may start on a day other than the 1st
+  const monthly = useMemo(
+    () => categories.filter(category => category.budget_period === 'monthly'),
+    [categories]
+  );
+  const windows = useMemo(() => {
+    const lastDay = toISODate(endOfMonth(parseISO(`${month}-01`)));
+    return new Map(monthly.map(category => [category.id, getBudgetWindow(category, lastDay)]));
+  }, [month, monthly]);
+
+  useEffect(() => {
+    if (user) {
+      fetchExpenses();
+    }
+  }, [user, windows]);
+
+  const fetchExpenses = async () => {
+    const ranges = [...windows.values()];
+    if (ranges.length === 0) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('expenses')
+        .select('category_id, amount, expense_date')
+        .eq('user_id', user!.id)
+        .in('category_id', [...windows.keys()])
+        .gte('expense_date', ranges.reduce((min, w) => (w.start < min ? w.start : min), ranges[0].start))
+        .lte('expense_date', ranges.reduce((max, w) => (w.end > max ? w.end : max), ranges[0].end));
+
+      if (error) throw error;
+      setExpenses(data);
+    } catch (error) {
+      console.error('Error fetching budget report:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rows = monthly
+    .map(category => {
+      const window = windows.get(category.id)!;
+      const planned = getBudgetForMonth(
+        category,
+        history.filter(entry => entry.category_id === category.id),
+        month
+      );
+      const actual = expenses
+        .filter(e => e.category_id === category.id && e.expense_date >= window.start && e.expense_date <= window.end)
+        .reduce((sum, e) => sum + Number(e.amount), 0);
+      return { category, window, planned, actual };
+    })
+    .filter(row => row.planned > 0 || row.actual > 0);
+
+  const totalPlanned = rows.reduce((sum, row) => sum + row.planned, 0);
+  const totalActual = rows.reduce((sum, row) => sum + row.actual, 0);
+  const otherPeriods = categories.length - monthly.length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-primary" />
+            Planejado x realizado
+          </CardTitle>
+          <CardDescription>
+            Quanto foi planejado e quanto foi gasto em cada categoria
+          </CardDescription>
+        </div>
+        <Select value={month} onValueChange={setMonth}>
+          <SelectTrigger className="w-full sm:w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {months.map((m) => (
+              <SelectItem key={m.key} value={m.key}>{m.label}/{m.key.slice(0, 4)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Nenhum orçamento ou gasto neste mês
+          </p>
+        ) : (
+          <div className="rounded-xl border border-border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Categoria</TableHead>
+                  <TableHead className="text-right">Planejado</TableHead>
+                  <TableHead className="text-right">Realizado</TableHead>
+                  <TableHead className="text-right">Diferença</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => {
+                  const difference = row.planned - row.actual;
+                  const isOver = difference < 0;
+
+                  return (
+                    <TableRow key={row.category.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: row.category.color }} />
+                          <div>
+                            <p className="font-medium">{row.category.name}</p>
+                            {row.category.budget_start_day !== 1 && (
+                              <p className="text-xs text-muted-foreground">{formatBudgetWindow(row.window)}</p>
+                            )}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.planned)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          {formatCurrency(row.actual)}
+                          {row.planned > 0 && (
+                            <Badge
+                              variant="outline"
+                              className={cn(
+                                isOver
+                                  ? 'bg-destructive/10 text-destructive border-destructive/20'
+                                  : 'bg-success/10 text-success border-success/20'
+                              )}
+                            >
+                              {formatPercent((row.actual / row.planned) * 100)}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className={cn('text-right font-medium', isOver ? 'text-destructive' : 'text-success')}>
+                        {isOver ? '−' : '+'}{formatCurrency(Math.abs(difference))}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Total</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totalPlanned)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totalActual)}</TableCell>
+                  <TableCell className={cn('text-right', totalActual > totalPlanned ? 'text-destructive' : 'text-success')}>
+                    {totalActual > totalPlanned ? '−' : '+'}{formatCurrency(Math.abs(totalPlanned - totalActual))}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+
+        {otherPeriods > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {otherPeriods === 1
+              ? '1 categoria com orçamento semanal, trimestral ou anual não entra no comparativo mensal.'
+              : `${otherPeriods} categorias com orçamento semanal, trimestral ou anual não entram no comparativo mensal.`}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
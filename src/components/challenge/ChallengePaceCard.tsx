@@ -0,0 +1,104 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, CalendarClock, Gauge } from 'lucide-react';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import type { ChallengePace, PaceStatus } from '@/lib/challenge';
+import { cn } from '@/lib/utils';
+
+interface ChallengePaceCardProps {
+  pace: ChallengePace;
+  deadline: string | null;
+  onEditSchedule: () => void;
+}
+
+const STATUS_BADGES: Record<PaceStatus, { label: string; className: string } | null> = {
+  done: { label: 'Concluído', className: 'bg-success/10 text-success border-success/20' },
+  on_track: { label: 'No ritmo', className: 'bg-success/10 text-success border-success/20' },
+  behind: { label: 'Atrasado', className: 'bg-destructive/10 text-destructive border-destructive/20' },
+  overdue: { label: 'Prazo encerrado', className: 'bg-destructive/10 text-destructive border-destructive/20' },
+  no_deadline: null,
+};
+
+export function ChallengePaceCard({ pace, deadline, onEditSchedule }: ChallengePaceCardProps) {
+  const badge = STATUS_BADGES[pace.status];
+  const projectedLate = !!deadline && !!pace.projectedDate && pace.projectedDate > deadline;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-accent" />
+          Ritmo
+          {badge && <Badge variant="outline" className={badge.className}>{badge.label}</Badge>}
+        </CardTitle>
+        <Button variant="outline" size="sm" className="gap-2" onClick={onEditSchedule}>
+          <CalendarClock className="w-4 h-4" />
+          Prazo
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pace.status === 'no_deadline' && (
+          <p className="text-sm text-muted-foreground">
+            Defina uma data final para saber quanto depositar por semana e se você está em dia.
+          </p>
+        )}
+
+        {pace.status === 'behind' && pace.expected !== null && (
+          <p className="text-sm text-destructive flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            Você está {formatCurrency(pace.expected - pace.completed)} abaixo do planejado para hoje.
+          </p>
+        )}
+
+        {pace.status === 'overdue' && (
+          <p className="text-sm text-destructive flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            O prazo terminou com {formatCurrency(pace.remaining)} ainda por depositar.
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {pace.requiredPerWeek !== null && (
+            <div>
+              <p className="text-sm text-muted-foreground">Necessário por semana</p>
+              <p className="text-xl font-bold">{formatCurrency(pace.requiredPerWeek)}</p>
+            </div>
+          )}
+          {pace.requiredPerMonth !== null && (
+            <div>
+              <p className="text-sm text-muted-foreground">Necessário por mês</p>
+              <p className="text-xl font-bold">{formatCurrency(pace.requiredPerMonth)}</p>
+            </div>
+          )}
+          {pace.expected !== null && (
+            <div>
+              <p className="text-sm text-muted-foreground">Esperado até hoje</p>
+              <p className="text-xl font-bold">{formatCurrency(pace.expected)}</p>
+            </div>
+          )}
+          {pace.status !== 'done' && (
+            <div>
+              <p className="text-sm text-muted-foreground">Seu ritmo atual</p>
+              <p className="text-xl font-bold">{formatCurrency(pace.dailyRate * 7)}/sem</p>
+            </div>
+          )}
+          <div>
+            <p className="text-sm text-muted-foreground">
+              {pace.status === 'done' ? 'Concluído em' : 'Previsão de conclusão'}
+            </p>
+            <p className={cn("text-xl font-bold", projectedLate && "text-destructive")}>
+              {pace.projectedDate ? formatDate(`${pace.projectedDate}T00:00:00`) : '—'}
+            </p>
+          </div>
+          {pace.daysLeft !== null && pace.daysLeft > 0 && (
+            <div>
+              <p className="text-sm text-muted-foreground">Dias restantes</p>
+              <p className="text-xl font-bold">{pace.daysLeft}</p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { Target, Shuffle, Loader2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatters';
+import { toISODate } from '@/lib/dates';
+import {
+  CHALLENGE_TEMPLATES,
+  ChallengePlan,
+  ChallengeTemplate,
+  GeneratorOptions,
+  generateDeposits,
+  getGeneratorTarget,
+  validateOptions,
+} from '@/lib/challenge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ChallengeSetupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (plan: ChallengePlan) => Promise<void>;
+}
+
+const PREVIEW_SIZE = 60;
+
+const FIELD_LABELS: Record<keyof GeneratorOptions, string> = {
+  target: 'Meta (R$)',
+  count: 'Depósitos',
+  amount: 'Valor por depósito (R$)',
+};
+
+export function ChallengeSetupDialog({ open, onOpenChange, onCreate }: ChallengeSetupDialogProps) {
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState(() => toISODate(new Date()));
+  const [deadline, setDeadline] = useState('');
+  const [fromAccountId, setFromAccountId] = useState('');
+  const [toAccountId, setToAccountId] = useState('');
+  const [template, setTemplate] = useState<ChallengeTemplate>('ladder');
+  const [fields, setFields] = useState<Record<keyof GeneratorOptions, string>>({ target: '', count: '', amount: '' });
+  const [deposits, setDeposits] = useState<number[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  const info = CHALLENGE_TEMPLATES[template];
+  const options: GeneratorOptions = {
+    target: Number(fields.target),
+    count: Number(fields.count),
+    amount: Number(fields.amount),
+  };
+  const error = validateOptions(template, options);
+  const detailsError = (() => {
+    if (!startDate) return 'Informe a data de início';
+    if (deadline && deadline <= startDate) return 'A data final precisa ser depois do início';
+    if (!!fromAccountId !== !!toAccountId) return 'Escolha as duas contas ou nenhuma';
+    if (fromAccountId && fromAccountId === toAccountId) return 'As contas de origem e destino devem ser diferentes';
+    return null;
+  })();
+  const target = getGeneratorTarget(template, options);
+
+  // Start each template from its own defaults
+  useEffect(() => {
+    const { defaults } = CHALLENGE_TEMPLATES[template];
+    setFields({
+      target: defaults.target.toString(),
+      count: defaults.count.toString(),
+      amount: defaults.amount.toString(),
+    });
+  }, [template]);
+
+  // Random templates keep the same draw until the options change or the user asks again
+  const regenerate = () => setDeposits(error ? [] : generateDeposits(template, options));
+
+  useEffect(() => {
+    regenerate();
+  }, [template, fields.target, fields.count, fields.amount]);
+
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setStartDate(toISODate(new Date()));
+      setDeadline('');
+      setFromAccountId('');
+      setToAccountId('');
+      setTemplate('ladder');
+    }
+  }, [open]);
+
+  const handleCreate = async () => {
+    if (error || detailsError || deposits.length === 0) return;
+    setCreating(true);
+    try {
+      await onCreate({
+        name: name.trim() || CHALLENGE_TEMPLATES[template].label,
+        startDate,
+        deadline: deadline || null,
+        fromAccountId: fromAccountId || null,
+        toAccountId: toAccountId || null,
+        template,
+        target,
+        deposits,
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Target className="w-5 h-5 text-accent" />
+            Novo Desafio
+          </DialogTitle>
+          <DialogDescription>
+            Escolha um modelo e confira os depósitos antes de começar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 pt-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label>Nome</Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ex: Reserva de emergência, Viagem, Carro"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Início</Label>
+              <Input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Data final (opcional)</Label>
+              <Input
+                type="date"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Depósitos saem de</Label>
+              <AccountSelect value={fromAccountId} onValueChange={setFromAccountId} />
+            </div>
+            <div className="space-y-2">
+              <Label>Guardar em</Label>
+              <AccountSelect value={toAccountId} onValueChange={setToAccountId} />
+            </div>
+            {detailsError && <p className="text-sm text-destructive col-span-2">{detailsError}</p>}
+          </div>
+
+          <RadioGroup
+            value={template}
+            onValueChange={(value) => setTemplate(value as ChallengeTemplate)}
+            className="grid-cols-1 sm:grid-cols-2"
+          >
+            {(Object.keys(CHALLENGE_TEMPLATES) as ChallengeTemplate[]).map((key) => (
+              <Label
+                key={key}
+                htmlFor={`template-${key}`}
+                className="flex items-start gap-3 rounded-xl border border-border p-3 cursor-pointer hover:bg-muted/50"
+              >
+                <RadioGroupItem value={key} id={`template-${key}`} className="mt-0.5" />
+                <div>
+                  <p className="font-medium">{CHALLENGE_TEMPLATES[key].label}</p>
+                  <p className="text-xs text-muted-foreground font-normal">{CHALLENGE_TEMPLATES[key].description}</p>
+                </div>
+              </Label>
+            ))}
+          </RadioGroup>
+
+          <div className="grid grid-cols-2 gap-4">
+            {info.fields.map((field) => (
+              <div key={field} className="space-y-2">
+                <Label>{FIELD_LABELS[field]}</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={fields[field]}
+                  onChange={(e) => setFields(prev => ({ ...prev, [field]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Preview */}
+          <div className="rounded-xl border border-border p-4 space-y-3">
+            {error ? (
+              <p className="text-sm text-destructive">{error}</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm">
+                    <span className="font-semibold">{deposits.length} depósitos</span>
+                    {' '}somando <span className="font-semibold">{formatCurrency(target)}</span>
+                  </p>
+                  {template === 'envelopes' && (
+                    <Button variant="ghost" size="sm" className="gap-2" onClick={regenerate}>
+                      <Shuffle className="w-4 h-4" />
+                      Sortear novamente
+                    </Button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {deposits.slice(0, PREVIEW_SIZE).map((value, index) => (
+                    <span
+                      key={index}
+                      className="text-xs font-medium px-2 py-1 rounded-md bg-secondary text-secondary-foreground"
+                    >
+                      {value}
+                    </span>
+                  ))}
+                  {deposits.length > PREVIEW_SIZE && (
+                    <span className="text-xs text-muted-foreground px-2 py-1">
+                      +{deposits.length - PREVIEW_SIZE}
+                    </span>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+
+          <Button onClick={handleCreate} className="w-full" disabled={!!error || !!detailsError || creating}>
+            {creating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Criar Desafio
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import { DEPOSIT_STATUS_LABELS, DepositStatus } from '@/lib/challenge';
+
+interface DepositEventsProps {
+  depositId: string;
+}
+
+type DepositEvent = Tables<'challenge_deposit_events'>;
+
+// Status changes of one deposit, newest first
+export function DepositEvents({ depositId }: DepositEventsProps) {
+  const [events, setEvents] = useState<DepositEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase
+      .from('challenge_deposit_events')
+      .select('*')
+      .eq('deposit_id', depositId)
+      .order('created_at', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching deposit events:', error);
+        } else {
+          setEvents(data);
+        }
+        setLoading(false);
+      });
+  }, [depositId]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nenhuma alteração registrada</p>;
+  }
+
+  return (
+    <ul className="space-y-2 max-h-60 overflow-y-auto">
+      {events.map((event) => (
+        <li key={event.id} className="text-sm">
+          <div className="flex items-center gap-2">
+            <span>
+              {DEPOSIT_STATUS_LABELS[event.from_status as DepositStatus]} → {DEPOSIT_STATUS_LABELS[event.to_status as DepositStatus]}
+            </span>
+            {event.is_undo && <Badge variant="outline" className="text-xs">Desfeito</Badge>}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {format(new Date(event.created_at), "dd/MM/yyyy 'às' HH:mm")}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Flame, History, Trophy, CalendarCheck } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import {
+  HistoryGrouping,
+  getCumulativeSeries,
+  getDailyTotals,
+  getHeatmapWeeks,
+  getPeriodTotals,
+  getStreaks,
+} from '@/lib/challengeHistory';
+import { cn } from '@/lib/utils';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface DepositHistoryProps {
+  deposits: Pick<Tables<'challenge_deposits'>, 'deposit_value' | 'status' | 'completed_at'>[];
+}
+
+const HEATMAP_WEEKS = 26;
+
+const GROUPINGS: Record<HistoryGrouping, { label: string; count: number }> = {
+  week: { label: 'Por semana', count: 12 },
+  month: { label: 'Por mês', count: 12 },
+};
+
+const LEVEL_CLASSES = ['bg-muted', 'bg-primary/25', 'bg-primary/50', 'bg-primary/75', 'bg-primary'];
+
+const WEEKDAY_LABELS = ['D', 'S', 'T', 'Q', 'Q', 'S', 'S'];
+
+const chartConfig = {
+  amount: { label: 'Guardado', color: 'hsl(var(--primary))' },
+  total: { label: 'Acumulado', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const currencyTooltip = (value: unknown, name: unknown) => (
+  <div className="flex flex-1 justify-between gap-4">
+    <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+    <span className="font-mono font-medium tabular-nums text-foreground">{formatCurrency(Number(value))}</span>
+  </div>
+);
+
+const compactCurrency = (value: number) => (value >= 1000 ? `R$${value / 1000}k` : `R$${value}`);
+
+export function DepositHistory({ deposits }: DepositHistoryProps) {
+  const [grouping, setGrouping] = useState<HistoryGrouping>('week');
+
+  const daily = getDailyTotals(deposits);
+  const streaks = getStreaks(daily.keys());
+  const weeks = getHeatmapWeeks(daily, HEATMAP_WEEKS);
+  const periodTotals = getPeriodTotals(daily, grouping, GROUPINGS[grouping].count);
+  const cumulative = getCumulativeSeries(daily);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="w-5 h-5 text-primary" />
+          Histórico
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {daily.size === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Conclua depósitos para acompanhar sua sequência e evolução aqui
+          </p>
+        ) : (
+          <>
+            {/* Streaks */}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="text-center">
+                <p className="text-sm text-muted-foreground mb-1 flex items-center justify-center gap-1">
+                  <Flame className="w-4 h-4 text-accent" />
+                  Sequência atual
+                </p>
+                <p className="text-2xl font-bold">
+                  {streaks.current} {streaks.current === 1 ? 'dia' : 'dias'}
+                </p>
+              </div>
+              <div className="text-center">
+                <p className="text-sm text-muted-foreground mb-1 flex items-center justify-center gap-1">
+                  <Trophy className="w-4 h-4 text-accent" />
+                  Maior sequência
+                </p>
+                <p className="text-2xl font-bold">
+                  {streaks.longest} {streaks.longest === 1 ? 'dia' : 'dias'}
+                </p>
+              </div>
+              <div className="text-center">
+                <p className="text-sm text-muted-foreground mb-1 flex items-center justify-center gap-1">
+                  <CalendarCheck className="w-4 h-4 text-primary" />
+                  Dias com depósito
+                </p>
+                <p className="text-2xl font-bold">{daily.size}</p>
+              </div>
+            </div>
+
+            {/* Heatmap */}
+            <div className="overflow-x-auto">
+              <div className="flex gap-1 w-max">
+                <div className="grid grid-rows-7 gap-1 mr-1">
+                  {WEEKDAY_LABELS.map((label, index) => (
+                    <span key={index} className="h-3 text-[10px] leading-3 text-muted-foreground">
+                      {index % 2 === 1 ? label : ''}
+                    </span>
+                  ))}
+                </div>
+                {weeks.map((week, weekIndex) => (
+                  <div key={weekIndex} className="grid grid-rows-7 gap-1">
+                    {week.map((day, dayIndex) => (
+                      day ? (
+                        <div
+                          key={day.date}
+                          className={cn("w-3 h-3 rounded-sm", LEVEL_CLASSES[day.level])}
+                          title={`${formatDate(`${day.date}T00:00:00`)}: ${day.count > 0
+                            ? `${day.count} ${day.count === 1 ? 'depósito' : 'depósitos'}, ${formatCurrency(day.amount)}`
+                            : 'nenhum depósito'}`}
+                        />
+                      ) : (
+                        <div key={dayIndex} className="w-3 h-3" />
+                      )
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Saved per week/month */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium">Guardado</h4>
+                  <Select value={grouping} onValueChange={(value) => setGrouping(value as HistoryGrouping)}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(GROUPINGS) as HistoryGrouping[]).map((key) => (
+                        <SelectItem key={key} value={key}>{GROUPINGS[key].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+                  <BarChart data={periodTotals}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={compactCurrency} />
+                    <ChartTooltip content={<ChartTooltipContent formatter={currencyTooltip} />} />
+                    <Bar dataKey="amount" fill="var(--color-amount)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+
+              {/* Cumulative savings */}
+              <div className="space-y-3">
+                <h4 className="font-medium leading-10">Evolução</h4>
+                <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+                  <AreaChart data={cumulative}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="date"
+                      tickLine={false}
+                      axisLine={false}
+                      minTickGap={24}
+                      tickFormatter={(date: string) => format(parseISO(date), 'dd/MM')}
+                    />
+                    <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={compactCurrency} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          formatter={currencyTooltip}
+                          labelFormatter={(_, payload) => formatDate(`${payload[0]?.payload.date}T00:00:00`)}
+                        />
+                      }
+                    />
+                    <Area
+                      dataKey="total"
+                      type="stepAfter"
+                      stroke="var(--color-total)"
+                      fill="var(--color-total)"
+                      fillOpacity={0.2}
+                    />
+                  </AreaChart>
+                </ChartContainer>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Wand2, Loader2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatters';
+import { suggestDeposits } from '@/lib/challenge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface PlannerDeposit {
+  id: string;
+  deposit_value: number;
+  sequence_order: number;
+}
+
+interface DepositPlannerProps<T extends PlannerDeposit> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Pending deposits, in sequence order
+  deposits: T[];
+  onComplete: (deposits: T[]) => Promise<void>;
+}
+
+export function DepositPlanner<T extends PlannerDeposit>({ open, onOpenChange, deposits, onComplete }: DepositPlannerProps<T>) {
+  const [budget, setBudget] = useState('');
+  const [completing, setCompleting] = useState(false);
+
+  useEffect(() => {
+    if (open) setBudget('');
+  }, [open]);
+
+  const amount = Number(budget);
+  const suggestion = useMemo(
+    () => (amount > 0 ? suggestDeposits(deposits, amount) : []),
+    [deposits, amount]
+  );
+  const suggestedTotal = suggestion.reduce((sum, d) => sum + d.deposit_value, 0);
+
+  const handleComplete = async () => {
+    if (suggestion.length === 0) return;
+    setCompleting(true);
+    try {
+      await onComplete(suggestion);
+    } finally {
+      setCompleting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="w-5 h-5 text-accent" />
+            Sugerir depósitos
+          </DialogTitle>
+          <DialogDescription>
+            Informe quanto você pode guardar agora e escolhemos os depósitos pendentes que somam esse valor.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <Label>Quanto você pode guardar? (R$)</Label>
+            <Input
+              type="number"
+              min={1}
+              step={1}
+              value={budget}
+              onChange={(e) => setBudget(e.target.value)}
+              placeholder="Ex: 350"
+              autoFocus
+            />
+          </div>
+
+          {amount > 0 && (
+            <div className="rounded-xl border border-border p-4 space-y-3">
+              {suggestion.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Nenhum depósito pendente cabe nesse valor
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm">
+                    <span className="font-semibold">{suggestion.length} depósitos</span>
+                    {' '}somando <span className="font-semibold">{formatCurrency(suggestedTotal)}</span>
+                  </p>
+                  {suggestedTotal < amount && (
+                    <p className="text-xs text-muted-foreground">
+                      Não há combinação exata; sobram {formatCurrency(amount - suggestedTotal)}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-1 max-h-40 overflow-y-auto">
+                    {suggestion.map((deposit) => (
+                      <span
+                        key={deposit.id}
+                        className="text-xs font-medium px-2 py-1 rounded-md bg-primary/10 text-primary"
+                      >
+                        {deposit.deposit_value}
+                      </span>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          <Button onClick={handleComplete} className="w-full" disabled={suggestion.length === 0 || completing}>
+            {completing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {suggestion.length > 0 ? `Concluir ${suggestion.length} depósitos` : 'Concluir depósitos'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
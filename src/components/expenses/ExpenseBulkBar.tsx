@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { CalendarDays, Loader2, Tag, Tags, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { toISODate } from '@/lib/dates';
+import { UNCATEGORIZED } from '@/lib/expenseFilters';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface BulkCategory {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface ExpenseBulkBarProps {
+  count: number;
+  categories: BulkCategory[];
+  onClear: () => void;
+  onRecategorize: (categoryId: string | null) => Promise<void>;
+  onChangeDate: (date: string) => Promise<void>;
+  onAddTag: (tag: string) => Promise<void>;
+  onDelete: () => Promise<void>;
+}
+
+type BulkAction = 'category' | 'date' | 'tag' | 'delete';
+
+// Actions for the expenses selected in the list; each callback reports its own
+// errors, the bar only tracks which one is running
+export function ExpenseBulkBar({
+  count,
+  categories,
+  onClear,
+  onRecategorize,
+  onChangeDate,
+  onAddTag,
+  onDelete,
+}: ExpenseBulkBarProps) {
+  const [running, setRunning] = useState<BulkAction | null>(null);
+  const [openPopover, setOpenPopover] = useState<BulkAction | null>(null);
+  const [date, setDate] = useState(toISODate(new Date()));
+  const [tag, setTag] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const run = async (action: BulkAction, task: () => Promise<void>) => {
+    setRunning(action);
+    try {
+      await task();
+      setOpenPopover(null);
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const togglePopover = (action: BulkAction) => (open: boolean) => {
+    setOpenPopover(open ? action : null);
+  };
+
+  return (
+    <div className="sticky top-16 lg:top-4 z-10 rounded-xl border border-primary/20 bg-card shadow-soft p-3 flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium mr-auto">
+        {count === 1 ? '1 despesa selecionada' : `${count} despesas selecionadas`}
+      </span>
+
+      <Popover open={openPopover === 'category'} onOpenChange={togglePopover('category')}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2" disabled={!!running}>
+            {running === 'category' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Tags className="w-4 h-4" />}
+            Categoria
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-64">
+          <Select onValueChange={(value) => run('category', () => onRecategorize(value === UNCATEGORIZED ? null : value))}>
+            <SelectTrigger>
+              <SelectValue placeholder="Mover para..." />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map((cat) => (
+                <SelectItem key={cat.id} value={cat.id}>
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: cat.color }} />
+                    {cat.name}
+                  </div>
+                </SelectItem>
+              ))}
+              <SelectItem value={UNCATEGORIZED}>Sem categoria</SelectItem>
+            </SelectContent>
+          </Select>
+        </PopoverContent>
+      </Popover>
+
+      <Popover open={openPopover === 'date'} onOpenChange={togglePopover('date')}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2" disabled={!!running}>
+            {running === 'date' ? <Loader2 className="w-4 h-4 animate-spin" /> : <CalendarDays className="w-4 h-4" />}
+            Data
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-64 space-y-2">
+          <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          <Button size="sm" className="w-full" disabled={!date} onClick={() => run('date', () => onChangeDate(date))}>
+            Mudar data
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      <Popover open={openPopover === 'tag'} onOpenChange={togglePopover('tag')}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2" disabled={!!running}>
+            {running === 'tag' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Tag className="w-4 h-4" />}
+            Tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-64 space-y-2">
+          <Input
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            placeholder="Ex: viagem"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && tag.trim()) run('tag', () => onAddTag(tag.trim()));
+            }}
+          />
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={!tag.trim()}
+            onClick={() => run('tag', () => onAddTag(tag.trim()))}
+          >
+            Adicionar tag
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2 text-destructive hover:text-destructive"
+        disabled={!!running}
+        onClick={() => setConfirmDelete(true)}
+      >
+        {running === 'delete' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+        Excluir
+      </Button>
+
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClear} disabled={!!running}>
+        <X className="w-4 h-4" />
+      </Button>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {count === 1 ? 'Excluir 1 despesa?' : `Excluir ${count} despesas?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Esta ação não pode ser desfeita. Parcelas são excluídas uma a uma, sem afetar as demais parcelas da compra.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => run('delete', onDelete)}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
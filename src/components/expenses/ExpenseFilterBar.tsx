@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { ArrowDownNarrowWide, ArrowUpNarrowWide, Filter, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useExpenseFilters } from '@/hooks/useExpenseFilters';
+import {
+  EXPENSE_SORT_LABELS,
+  ExpenseSort,
+  UNCATEGORIZED,
+  countActiveFilters,
+} from '@/lib/expenseFilters';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface FilterCategory {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface ExpenseFilterBarProps {
+  categories: FilterCategory[];
+}
+
+const SEARCH_DELAY_MS = 300;
+
+export function ExpenseFilterBar({ categories }: ExpenseFilterBarProps) {
+  const { filters, updateFilters, resetFilters } = useExpenseFilters();
+  const [search, setSearch] = useState(filters.search);
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+
+  // Back/forward navigation changes the URL under the input
+  useEffect(() => {
+    setSearch(filters.search);
+  }, [filters.search]);
+
+  useEffect(() => {
+    if (search.trim() === filters.search) return;
+    const timeout = setTimeout(() => updateFilters({ search: search.trim() }), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  useEffect(() => {
+    if (filtersOpen) {
+      setSelectedCategories(filters.categories);
+      setMinAmount(filters.minAmount?.toString() ?? '');
+      setMaxAmount(filters.maxAmount?.toString() ?? '');
+    }
+  }, [filtersOpen]);
+
+  const toggleCategory = (id: string, checked: boolean) => {
+    setSelectedCategories(prev => checked ? [...prev, id] : prev.filter(c => c !== id));
+  };
+
+  const applyFilters = () => {
+    const min = minAmount === '' ? null : Number(minAmount);
+    const max = maxAmount === '' ? null : Number(maxAmount);
+    updateFilters({
+      categories: selectedCategories,
+      minAmount: min !== null && Number.isFinite(min) ? min : null,
+      maxAmount: max !== null && Number.isFinite(max) ? max : null,
+    });
+    setFiltersOpen(false);
+  };
+
+  const activeCount = countActiveFilters(filters);
+  const categoryOptions = [
+    ...categories,
+    { id: UNCATEGORIZED, name: 'Sem categoria', color: 'hsl(var(--muted-foreground))' },
+  ];
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2 flex-1">
+      <div className="relative flex-1 sm:max-w-xs">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Buscar na descrição"
+          className="pl-9"
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Popover open={filtersOpen} onOpenChange={setFiltersOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="gap-2">
+              <Filter className="w-4 h-4" />
+              Filtros
+              {activeCount > 0 && (
+                <span className="min-w-5 h-5 px-1 rounded-full bg-primary text-primary-foreground text-xs leading-5">
+                  {activeCount}
+                </span>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-72 space-y-4">
+            <div className="space-y-2">
+              <Label>Categorias</Label>
+              <div className="max-h-48 overflow-y-auto space-y-2">
+                {categoryOptions.map((cat) => (
+                  <div key={cat.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`filter-category-${cat.id}`}
+                      checked={selectedCategories.includes(cat.id)}
+                      onCheckedChange={(checked) => toggleCategory(cat.id, checked === true)}
+                    />
+                    <Label htmlFor={`filter-category-${cat.id}`} className="flex items-center gap-2 font-normal">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: cat.color }} />
+                      {cat.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Valor</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  value={minAmount}
+                  onChange={(e) => setMinAmount(e.target.value)}
+                  placeholder="Mínimo"
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={maxAmount}
+                  onChange={(e) => setMaxAmount(e.target.value)}
+                  placeholder="Máximo"
+                />
+              </div>
+            </div>
+
+            <Button onClick={applyFilters} className="w-full">
+              Aplicar
+            </Button>
+          </PopoverContent>
+        </Popover>
+
+        <Select value={filters.sort} onValueChange={(value) => updateFilters({ sort: value as ExpenseSort })}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(EXPENSE_SORT_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => updateFilters({ ascending: !filters.ascending })}
+          title={filters.ascending ? 'Crescente' : 'Decrescente'}
+        >
+          {filters.ascending
+            ? <ArrowUpNarrowWide className="w-4 h-4" />
+            : <ArrowDownNarrowWide className="w-4 h-4" />}
+        </Button>
+
+        {activeCount > 0 && (
+          <Button variant="ghost" size="sm" className="gap-1" onClick={resetFilters}>
+            <X className="w-4 h-4" />
+            Limpar
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
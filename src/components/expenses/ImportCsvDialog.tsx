@@ -0,0 +1,458 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useNotifications } from '@/hooks/useNotifications';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Upload, Loader2, AlertTriangle } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatters';
+import { parseCSV, readTextFile } from '@/lib/csv';
+import { parseBRDate, parseBRNumber } from '@/lib/parsers';
+import { findDuplicates, normalizeText } from '@/lib/import';
+import { CategoryRule, findMatchingRule } from '@/lib/rules';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface Category {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface ImportCsvDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  categories: Category[];
+  rules: CategoryRule[];
+  onImported: () => void;
+}
+
+interface ColumnMapping {
+  date: string;
+  amount: string;
+  description: string;
+}
+
+interface PreviewRow {
+  line: number;
+  date: string | null;
+  amount: number | null;
+  description: string;
+  categoryId: string;
+  include: boolean;
+  duplicate: boolean;
+  // Money coming in (refunds, incoming transfers), which is not an expense
+  credit: boolean;
+}
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+// How the file writes an expense: bank statements usually show debits as
+// negative values, while credit card bills list purchases as positive ones
+type ExpenseSign = 'negative' | 'positive';
+
+const EXPENSE_SIGN_LABELS: Record<ExpenseSign, string> = {
+  negative: 'Valores negativos (extrato bancário)',
+  positive: 'Valores positivos (fatura do cartão)',
+};
+
+const NO_COLUMN = 'none';
+const NO_CATEGORY = 'none';
+
+function guessColumn(headers: string[], pattern: RegExp): string {
+  const index = headers.findIndex(h => pattern.test(normalizeText(h)));
+  return index >= 0 ? index.toString() : NO_COLUMN;
+}
+
+// A file with any negative amount is read as a statement; otherwise all rows are expenses
+function guessExpenseSign(rows: string[][], column: string): ExpenseSign {
+  if (column === NO_COLUMN) return 'negative';
+  const negative = rows.some(row => (parseBRNumber(row[Number(column)] ?? '') ?? 0) < 0);
+  return negative ? 'negative' : 'positive';
+}
+
+export function ImportCsvDialog({ open, onOpenChange, categories, rules, onImported }: ImportCsvDialogProps) {
+  const { user } = useAuth();
+  const { checkBudgets } = useNotifications();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({
+    date: NO_COLUMN,
+    amount: NO_COLUMN,
+    description: NO_COLUMN,
+  });
+  const [expenseSign, setExpenseSign] = useState<ExpenseSign>('negative');
+  const [preview, setPreview] = useState<PreviewRow[]>([]);
+  const [processing, setProcessing] = useState(false);
+
+  const headers = rows[0] ?? [];
+  const columnOptions = headers.map((header, index) => ({
+    value: index.toString(),
+    label: hasHeader && header.trim() ? header : `Coluna ${index + 1}`,
+  }));
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setRows([]);
+    setHasHeader(true);
+    setMapping({ date: NO_COLUMN, amount: NO_COLUMN, description: NO_COLUMN });
+    setExpenseSign('negative');
+    setPreview([]);
+    setProcessing(false);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const parsed = parseCSV(await readTextFile(file));
+      if (parsed.length === 0) {
+        toast.error('O arquivo está vazio');
+        return;
+      }
+
+      const amountColumn = guessColumn(parsed[0], /valor|amount|quantia|montante/);
+      setFileName(file.name);
+      setRows(parsed);
+      setMapping({
+        date: guessColumn(parsed[0], /^data|date/),
+        amount: amountColumn,
+        description: guessColumn(parsed[0], /descri|historico|lancamento|memo|estabelecimento/),
+      });
+      setExpenseSign(guessExpenseSign(parsed, amountColumn));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      toast.error('Não foi possível ler o arquivo');
+    }
+  };
+
+  const buildPreview = async () => {
+    if (mapping.date === NO_COLUMN || mapping.amount === NO_COLUMN) {
+      toast.error('Selecione as colunas de data e valor');
+      return;
+    }
+
+    setProcessing(true);
+
+    try {
+      const dataRows = hasHeader ? rows.slice(1) : rows;
+      const parsedRows = dataRows.map((row, index) => {
+        const amount = parseBRNumber(row[Number(mapping.amount)] ?? '');
+        return {
+          line: index + (hasHeader ? 2 : 1),
+          date: parseBRDate(row[Number(mapping.date)] ?? ''),
+          amount: amount === null || amount === 0 ? null : Math.abs(amount),
+          description: mapping.description === NO_COLUMN
+            ? ''
+            : (row[Number(mapping.description)] ?? '').trim(),
+          credit: !!amount && (expenseSign === 'negative' ? amount > 0 : amount < 0),
+        };
+      });
+
+      const validRows = parsedRows.filter(r => r.date && r.amount !== null && !r.credit);
+      const dates = validRows.map(r => r.date!).sort();
+
+      let duplicates: boolean[] = [];
+      if (validRows.length > 0) {
+        const { data: existing, error } = await supabase
+          .from('expenses')
+          .select('amount, expense_date')
+          .eq('user_id', user!.id)
+          .gte('expense_date', dates[0])
+          .lte('expense_date', dates[dates.length - 1]);
+
+        if (error) throw error;
+
+        duplicates = findDuplicates(
+          validRows.map(r => ({ date: r.date!, amount: r.amount!, description: r.description })),
+          existing ?? []
+        );
+      }
+
+      let validIndex = 0;
+      setPreview(parsedRows.map(row => {
+        const valid = !!row.date && row.amount !== null && !row.credit;
+        const duplicate = valid ? duplicates[validIndex++] : false;
+        const rule = valid
+          ? findMatchingRule(rules, { description: row.description, amount: row.amount!, expense_date: row.date! })
+          : null;
+        return {
+          ...row,
+          categoryId: rule?.category_id ?? NO_CATEGORY,
+          include: valid && !duplicate,
+          duplicate,
+        };
+      }));
+      setStep('preview');
+    } catch (error) {
+      console.error('Error building preview:', error);
+      toast.error('Erro ao analisar o arquivo');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const updateRow = (line: number, changes: Partial<PreviewRow>) => {
+    setPreview(prev => prev.map(r => r.line === line ? { ...r, ...changes } : r));
+  };
+
+  const selectedRows = preview.filter(r => r.include);
+  const selectedTotal = selectedRows.reduce((sum, r) => sum + (r.amount ?? 0), 0);
+
+  const handleImport = async () => {
+    if (selectedRows.length === 0) {
+      toast.error('Selecione ao menos uma linha');
+      return;
+    }
+
+    setProcessing(true);
+
+    try {
+      const { error } = await supabase
+        .from('expenses')
+        .insert(selectedRows.map(r => ({
+          user_id: user!.id,
+          amount: r.amount!,
+          description: r.description || null,
+          expense_date: r.date!,
+          category_id: r.categoryId === NO_CATEGORY ? null : r.categoryId,
+        })));
+
+      if (error) throw error;
+
+      toast.success(`${selectedRows.length} despesas importadas!`);
+      checkBudgets(selectedRows.map(r => r.date!));
+      handleOpenChange(false);
+      onImported();
+    } catch (error) {
+      console.error('Error importing expenses:', error);
+      toast.error('Erro ao importar despesas');
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className={cn(step === 'preview' && 'max-w-4xl')}>
+        <DialogHeader>
+          <DialogTitle>Importar Extrato CSV</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Selecione o arquivo CSV exportado pelo seu banco'}
+            {step === 'mapping' && `Indique as colunas de ${fileName}`}
+            {step === 'preview' && 'Revise as despesas antes de importar'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4 pt-2">
+            <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed border-border rounded-xl py-10 cursor-pointer hover:bg-muted/50 transition-colors">
+              <Upload className="w-8 h-8 text-muted-foreground" />
+              <span className="text-sm text-muted-foreground">Clique para escolher um arquivo .csv</span>
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-4 pt-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="csv-has-header"
+                checked={hasHeader}
+                onCheckedChange={(checked) => setHasHeader(checked === true)}
+              />
+              <Label htmlFor="csv-has-header">Primeira linha é cabeçalho</Label>
+            </div>
+
+            {([
+              { key: 'date', label: 'Data' },
+              { key: 'amount', label: 'Valor' },
+              { key: 'description', label: 'Descrição (opcional)' },
+            ] as const).map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label>{label}</Label>
+                <Select
+                  value={mapping[key]}
+                  onValueChange={(value) => setMapping(prev => ({ ...prev, [key]: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione uma coluna" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_COLUMN}>Nenhuma</SelectItem>
+                    {columnOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <Label>Despesas aparecem como</Label>
+              <Select value={expenseSign} onValueChange={(value) => setExpenseSign(value as ExpenseSign)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(EXPENSE_SIGN_LABELS) as ExpenseSign[]).map((sign) => (
+                    <SelectItem key={sign} value={sign}>
+                      {EXPENSE_SIGN_LABELS[sign]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Valores com o outro sinal são créditos (estornos, transferências recebidas) e ficam de fora
+              </p>
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={reset} className="flex-1">
+                Voltar
+              </Button>
+              <Button onClick={buildPreview} disabled={processing} className="flex-1">
+                {processing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Pré-visualizar
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4 pt-2">
+            <div className="max-h-[50vh] overflow-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Data</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead className="w-48">Categoria</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map((row) => {
+                    const valid = !!row.date && row.amount !== null && !row.credit;
+                    return (
+                      <TableRow key={row.line} className={cn(!row.include && 'opacity-60')}>
+                        <TableCell>
+                          <Checkbox
+                            checked={row.include}
+                            disabled={!valid}
+                            onCheckedChange={(checked) => updateRow(row.line, { include: checked === true })}
+                          />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {row.date ? row.date.split('-').reverse().join('/') : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span className="truncate max-w-64">{row.description || '—'}</span>
+                            {row.duplicate && <Badge variant="secondary">Duplicada</Badge>}
+                            {row.credit && <Badge variant="outline">Crédito</Badge>}
+                            {!valid && !row.credit && (
+                              <Badge variant="destructive" className="gap-1">
+                                <AlertTriangle className="w-3 h-3" />
+                                Linha {row.line} inválida
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {row.amount !== null ? formatCurrency(row.amount) : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={row.categoryId}
+                            onValueChange={(value) => updateRow(row.line, { categoryId: value })}
+                            disabled={!valid}
+                          >
+                            <SelectTrigger className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_CATEGORY}>Sem categoria</SelectItem>
+                              {categories.map((cat) => (
+                                <SelectItem key={cat.id} value={cat.id}>
+                                  <div className="flex items-center gap-2">
+                                    <div
+                                      className="w-3 h-3 rounded-full"
+                                      style={{ backgroundColor: cat.color }}
+                                    />
+                                    {cat.name}
+                                  </div>
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                {selectedRows.length} de {preview.length} linhas selecionadas • {formatCurrency(selectedTotal)}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setStep('mapping')}>
+                  Voltar
+                </Button>
+                <Button onClick={handleImport} disabled={processing}>
+                  {processing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Importar {selectedRows.length} despesas
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
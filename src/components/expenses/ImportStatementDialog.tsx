@@ -0,0 +1,362 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useNotifications } from '@/hooks/useNotifications';
+import { supabase } from '@/integrations/supabase/client';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Upload, Loader2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatters';
+import { readTextFile } from '@/lib/csv';
+import { parseStatement } from '@/lib/statements';
+import { CategoryRule, findMatchingRule } from '@/lib/rules';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface Category {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface ImportStatementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  categories: Category[];
+  rules: CategoryRule[];
+  onImported: () => void;
+}
+
+interface PreviewRow {
+  // FITIDs can repeat within a file, so rows are told apart by position too
+  key: string;
+  externalId: string;
+  date: string;
+  amount: number;
+  kind: 'expense' | 'income';
+  description: string;
+  categoryId: string;
+  include: boolean;
+  imported: boolean;
+}
+
+const NO_CATEGORY = 'none';
+const CONFLICT_COLUMNS = 'user_id,external_account,external_id';
+
+export function ImportStatementDialog({ open, onOpenChange, categories, rules, onImported }: ImportStatementDialogProps) {
+  const { user } = useAuth();
+  const { checkBudgets } = useNotifications();
+  const [fileName, setFileName] = useState('');
+  const [account, setAccount] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [preview, setPreview] = useState<PreviewRow[]>([]);
+  const [processing, setProcessing] = useState(false);
+
+  const reset = () => {
+    setFileName('');
+    setAccount('');
+    setAccountId('');
+    setPreview([]);
+    setProcessing(false);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setProcessing(true);
+
+    try {
+      const statement = parseStatement(file.name, await readTextFile(file));
+      if (statement.transactions.length === 0) {
+        toast.error(statement.skipped > 0
+          ? `Nenhuma transação válida no arquivo (${statement.skipped} sem data ou valor reconhecível)`
+          : 'Nenhuma transação encontrada no arquivo');
+        return;
+      }
+      if (statement.skipped > 0) {
+        toast.warning(`${statement.skipped} transações sem data ou valor reconhecível foram ignoradas`);
+      }
+
+      const dates = statement.transactions.map(t => t.date).sort();
+      const from = dates[0];
+      const to = dates[dates.length - 1];
+
+      const [{ data: importedExpenses, error: expensesError }, { data: importedPayments, error: paymentsError }] =
+        await Promise.all([
+          supabase
+            .from('expenses')
+            .select('external_id')
+            .eq('user_id', user!.id)
+            .eq('external_account', statement.account)
+            .gte('expense_date', from)
+            .lte('expense_date', to),
+          supabase
+            .from('payments')
+            .select('external_id')
+            .eq('user_id', user!.id)
+            .eq('external_account', statement.account)
+            .gte('payment_date', from)
+            .lte('payment_date', to),
+        ]);
+
+      if (expensesError) throw expensesError;
+      if (paymentsError) throw paymentsError;
+
+      const importedIds = new Set(
+        [...(importedExpenses ?? []), ...(importedPayments ?? [])].map(row => row.external_id)
+      );
+
+      setFileName(file.name);
+      setAccount(statement.account);
+      setPreview(statement.transactions.map((t, index) => {
+        const imported = importedIds.has(t.externalId);
+        const rule = t.amount < 0
+          ? findMatchingRule(rules, { description: t.description, amount: t.amount, expense_date: t.date })
+          : null;
+        return {
+          key: `${t.externalId}#${index}`,
+          externalId: t.externalId,
+          date: t.date,
+          amount: Math.abs(t.amount),
+          kind: t.amount < 0 ? 'expense' : 'income',
+          description: t.description,
+          categoryId: rule?.category_id ?? NO_CATEGORY,
+          include: !imported,
+          imported,
+        };
+      }));
+    } catch (error) {
+      console.error('Error reading statement:', error);
+      toast.error('Não foi possível ler o extrato');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const updateRow = (key: string, changes: Partial<PreviewRow>) => {
+    setPreview(prev => prev.map(r => r.key === key ? { ...r, ...changes } : r));
+  };
+
+  const selectedExpenses = preview.filter(r => r.include && r.kind === 'expense');
+  const selectedIncome = preview.filter(r => r.include && r.kind === 'income');
+
+  const handleImport = async () => {
+    if (selectedExpenses.length + selectedIncome.length === 0) {
+      toast.error('Selecione ao menos uma transação');
+      return;
+    }
+
+    setProcessing(true);
+
+    try {
+      // Rows already imported are ignored by the upsert and don't come back
+      let insertedExpenses: { expense_date: string }[] = [];
+      let insertedIncome = 0;
+
+      if (selectedExpenses.length > 0) {
+        const { data, error } = await supabase
+          .from('expenses')
+          .upsert(selectedExpenses.map(r => ({
+            user_id: user!.id,
+            amount: r.amount,
+            description: r.description || null,
+            expense_date: r.date,
+            category_id: r.categoryId === NO_CATEGORY ? null : r.categoryId,
+            account_id: accountId || null,
+            external_id: r.externalId,
+            external_account: account,
+          })), { onConflict: CONFLICT_COLUMNS, ignoreDuplicates: true })
+          .select('expense_date');
+
+        if (error) throw error;
+        insertedExpenses = data;
+      }
+
+      if (selectedIncome.length > 0) {
+        const { data, error } = await supabase
+          .from('payments')
+          .upsert(selectedIncome.map(r => ({
+            user_id: user!.id,
+            amount: r.amount,
+            payment_date: r.date,
+            description: r.description || null,
+            category: 'other',
+            account_id: accountId || null,
+            external_id: r.externalId,
+            external_account: account,
+          })), { onConflict: CONFLICT_COLUMNS, ignoreDuplicates: true })
+          .select('id');
+
+        if (error) throw error;
+        insertedIncome = data.length;
+      }
+
+      toast.success(`${insertedExpenses.length} despesas e ${insertedIncome} receitas importadas!`);
+      checkBudgets(insertedExpenses.map(r => r.expense_date));
+      handleOpenChange(false);
+      onImported();
+    } catch (error) {
+      console.error('Error importing statement:', error);
+      toast.error('Erro ao importar extrato');
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className={cn(preview.length > 0 && 'max-w-4xl')}>
+        <DialogHeader>
+          <DialogTitle>Importar Extrato OFX/QIF</DialogTitle>
+          <DialogDescription>
+            {preview.length === 0
+              ? 'Débitos viram despesas e créditos viram receitas. Transações já importadas são ignoradas.'
+              : `${fileName} • conta ${account}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview.length === 0 ? (
+          <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed border-border rounded-xl py-10 cursor-pointer hover:bg-muted/50 transition-colors">
+            {processing ? (
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            ) : (
+              <Upload className="w-8 h-8 text-muted-foreground" />
+            )}
+            <span className="text-sm text-muted-foreground">Clique para escolher um arquivo .ofx ou .qif</span>
+            <Input
+              type="file"
+              accept=".ofx,.qif"
+              className="hidden"
+              disabled={processing}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        ) : (
+          <div className="space-y-4 pt-2">
+            <div className="space-y-2 sm:max-w-xs">
+              <Label>Lançar na conta</Label>
+              <AccountSelect value={accountId} onValueChange={setAccountId} />
+            </div>
+
+            <div className="max-h-[50vh] overflow-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Data</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead className="w-48">Categoria</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map((row) => (
+                    <TableRow key={row.key} className={cn(!row.include && 'opacity-60')}>
+                      <TableCell>
+                        <Checkbox
+                          checked={row.include}
+                          disabled={row.imported}
+                          onCheckedChange={(checked) => updateRow(row.key, { include: checked === true })}
+                        />
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {row.date.split('-').reverse().join('/')}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="truncate max-w-64">{row.description || '—'}</span>
+                          {row.imported && <Badge variant="secondary">Já importada</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell
+                        className={cn(
+                          'text-right whitespace-nowrap',
+                          row.kind === 'income' ? 'text-primary' : 'text-destructive'
+                        )}
+                      >
+                        {row.kind === 'income' ? '+' : '-'}{formatCurrency(row.amount)}
+                      </TableCell>
+                      <TableCell>
+                        {row.kind === 'expense' ? (
+                          <Select
+                            value={row.categoryId}
+                            onValueChange={(value) => updateRow(row.key, { categoryId: value })}
+                            disabled={row.imported}
+                          >
+                            <SelectTrigger className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_CATEGORY}>Sem categoria</SelectItem>
+                              {categories.map((cat) => (
+                                <SelectItem key={cat.id} value={cat.id}>
+                                  <div className="flex items-center gap-2">
+                                    <div
+                                      className="w-3 h-3 rounded-full"
+                                      style={{ backgroundColor: cat.color }}
+                                    />
+                                    {cat.name}
+                                  </div>
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">Receita</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                {selectedExpenses.length} despesas • {selectedIncome.length} receitas selecionadas
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={reset}>
+                  Voltar
+                </Button>
+                <Button onClick={handleImport} disabled={processing}>
+                  {processing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Importar
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DollarSign } from 'lucide-react';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { toISODate } from '@/lib/dates';
+import { INCOME_CATEGORIES, IncomeCategory, Payment } from '@/lib/income';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface IncomeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  payment?: Payment | null;
+  onSaved: () => void;
+}
+
+export function IncomeDialog({ open, onOpenChange, payment, onSaved }: IncomeDialogProps) {
+  const { user } = useAuth();
+  const [amount, setAmount] = useState('');
+  const [source, setSource] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<IncomeCategory>('salary');
+  const [paymentDate, setPaymentDate] = useState(toISODate(new Date()));
+  const [accountId, setAccountId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setAmount(payment ? payment.amount.toString() : '');
+    setSource(payment?.source ?? '');
+    setDescription(payment?.description ?? '');
+    setCategory((payment?.category as IncomeCategory) ?? 'salary');
+    setPaymentDate(payment?.payment_date ?? toISODate(new Date()));
+    setAccountId(payment?.account_id ?? '');
+  }, [open, payment]);
+
+  const handleSubmit = async () => {
+    const amountValue = parseFloat(amount);
+    if (isNaN(amountValue) || amountValue <= 0) {
+      toast.error('Informe um valor válido');
+      return;
+    }
+    if (!paymentDate) {
+      toast.error('Informe a data');
+      return;
+    }
+
+    const values = {
+      amount: amountValue,
+      source: source.trim() || null,
+      description: description.trim() || null,
+      category,
+      payment_date: paymentDate,
+      account_id: accountId || null,
+    };
+
+    setSaving(true);
+
+    try {
+      if (payment) {
+        const { error } = await supabase
+          .from('payments')
+          .update(values)
+          .eq('id', payment.id);
+
+        if (error) throw error;
+        toast.success('Receita atualizada!');
+      } else {
+        const { error } = await supabase
+          .from('payments')
+          .insert({ ...values, user_id: user!.id });
+
+        if (error) throw error;
+        toast.success('Receita adicionada!');
+      }
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast.error('Erro ao salvar receita');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{payment ? 'Editar Receita' : 'Nova Receita'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 pt-4">
+          <div className="space-y-2">
+            <Label>Valor</Label>
+            <div className="relative">
+              <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                type="number"
+                placeholder="0,00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={category} onValueChange={(value) => setCategory(value as IncomeCategory)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(INCOME_CATEGORIES) as IncomeCategory[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      <div className="flex items-center gap-2">
+                        <div
+                          className="w-3 h-3 rounded-full"
+                          style={{ backgroundColor: INCOME_CATEGORIES[key].color }}
+                        />
+                        {INCOME_CATEGORIES[key].label}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Data</Label>
+              <Input
+                type="date"
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Conta</Label>
+            <AccountSelect value={accountId} onValueChange={setAccountId} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Fonte</Label>
+            <Input
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              placeholder="Ex: Empresa, cliente, corretora"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Descrição (opcional)</Label>
+            <Input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Ex: Projeto landing page"
+            />
+          </div>
+
+          <Button onClick={handleSubmit} className="w-full" disabled={saving}>
+            {payment ? 'Salvar' : 'Adicionar'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
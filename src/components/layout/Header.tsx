@@ -1,15 +1,30 @@
-import { Menu, Moon, Sun, LogOut, Wallet } from 'lucide-react';
+import { Link, useLocation } from 'react-router-dom';
+import { Menu, Moon, Sun, LogOut, Wallet, Database, Repeat, TrendingUp, Landmark, PiggyBank, Wand2 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useTheme } from '@/hooks/useTheme';
+import { getPeriodSearch } from '@/hooks/usePeriod';
 import { Button } from '@/components/ui/button';
+import { NotificationsInbox } from '@/components/notifications/NotificationsInbox';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
+// Pages that don't fit in the bottom navigation on mobile
+const menuItems = [
+  { path: '/budgets', label: 'Orçamentos', icon: PiggyBank },
+  { path: '/income', label: 'Receitas', icon: TrendingUp },
+  { path: '/accounts', label: 'Contas', icon: Landmark },
+  { path: '/recurring', label: 'Recorrentes', icon: Repeat },
+  { path: '/rules', label: 'Regras', icon: Wand2 },
+  { path: '/data', label: 'Dados', icon: Database },
+];
+
 export function Header() {
+  const location = useLocation();
   const { user, signOut } = useAuth();
   const { theme, toggleTheme } = useTheme();
 
@@ -24,6 +39,7 @@ export function Header() {
         </div>
 
         <div className="flex items-center gap-2">
+          <NotificationsInbox />
           <Button variant="ghost" size="icon" onClick={toggleTheme}>
             {theme === 'dark' ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
           </Button>
@@ -38,6 +54,16 @@ export function Header() {
               <DropdownMenuItem className="text-sm text-muted-foreground">
                 {user?.email}
               </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              {menuItems.map((item) => (
+                <DropdownMenuItem key={item.path} asChild>
+                  <Link to={{ pathname: item.path, search: getPeriodSearch(location.search) }}>
+                    <item.icon className="w-4 h-4 mr-2" />
+                    {item.label}
+                  </Link>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
               <DropdownMenuItem onClick={signOut} className="text-destructive">
                 <LogOut className="w-4 h-4 mr-2" />
                 Sair
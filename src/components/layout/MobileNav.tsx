@@ -1,6 +1,7 @@
 import { NavLink, useLocation } from 'react-router-dom';
 import { LayoutDashboard, Target, Tags, Receipt } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getPeriodSearch } from '@/hooks/usePeriod';
 
 const navItems = [
   { path: '/', label: 'Dashboard', icon: LayoutDashboard },
@@ -16,11 +17,11 @@ export function MobileNav() {
     <nav className="fixed bottom-0 left-0 right-0 z-40 bg-card border-t border-border lg:hidden">
       <div className="flex justify-around items-center py-2 px-4 safe-area-bottom">
         {navItems.map((item) => {
-          const isActive = location.pathname === item.path;
+          const isActive = location.pathname === item.path || location.pathname.startsWith(`${item.path}/`);
           return (
             <NavLink
               key={item.path}
-              to={item.path}
+              to={{ pathname: item.path, search: getPeriodSearch(location.search) }}
               className={cn(
                 "flex flex-col items-center gap-1 px-4 py-2 rounded-xl transition-all duration-200",
                 isActive 
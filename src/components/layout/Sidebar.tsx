@@ -3,7 +3,13 @@ import {
   LayoutDashboard, 
   Target, 
   Tags, 
+  PiggyBank,
   Receipt,
+  TrendingUp,
+  Landmark,
+  Repeat,
+  Wand2,
+  Database,
   LogOut,
   Moon,
   Sun,
@@ -12,13 +18,21 @@ import {
 import { useAuth } from '@/hooks/useAuth';
 import { useTheme } from '@/hooks/useTheme';
 import { cn } from '@/lib/utils';
+import { getPeriodSearch } from '@/hooks/usePeriod';
 import { Button } from '@/components/ui/button';
+import { NotificationsInbox } from '@/components/notifications/NotificationsInbox';
 
 const navItems = [
   { path: '/', label: 'Dashboard', icon: LayoutDashboard },
-  { path: '/challenge', label: 'Desafio 40K', icon: Target },
+  { path: '/challenge', label: 'Desafios', icon: Target },
   { path: '/categories', label: 'Categorias', icon: Tags },
+  { path: '/budgets', label: 'Orçamentos', icon: PiggyBank },
   { path: '/expenses', label: 'Despesas', icon: Receipt },
+  { path: '/income', label: 'Receitas', icon: TrendingUp },
+  { path: '/accounts', label: 'Contas', icon: Landmark },
+  { path: '/recurring', label: 'Recorrentes', icon: Repeat },
+  { path: '/rules', label: 'Regras', icon: Wand2 },
+  { path: '/data', label: 'Dados', icon: Database },
 ];
 
 export function Sidebar() {
@@ -37,16 +51,20 @@ export function Sidebar() {
           <h1 className="font-bold text-lg text-sidebar-foreground">FinTrack</h1>
           <p className="text-xs text-sidebar-foreground/60">Controle Financeiro</p>
         </div>
+        <NotificationsInbox
+          side="right"
+          className="ml-auto text-sidebar-foreground/70 hover:text-sidebar-foreground hover:bg-sidebar-accent"
+        />
       </div>
 
       {/* Navigation */}
       <nav className="flex-1 px-4 py-6 space-y-2">
         {navItems.map((item) => {
-          const isActive = location.pathname === item.path;
+          const isActive = location.pathname === item.path || location.pathname.startsWith(`${item.path}/`);
           return (
             <NavLink
               key={item.path}
-              to={item.path}
+              to={{ pathname: item.path, search: getPeriodSearch(location.search) }}
               className={cn(
                 "flex items-center gap-3 px-4 py-3 rounded-xl text-sm font-medium transition-all duration-200",
                 isActive 
@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2 } from 'lucide-react';
+import { useNotifications } from '@/hooks/useNotifications';
+import { BUDGET_THRESHOLDS } from '@/lib/notifications';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface NotificationSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const browserSupported = typeof window !== 'undefined' && 'Notification' in window;
+
+export function NotificationSettingsDialog({ open, onOpenChange }: NotificationSettingsDialogProps) {
+  const { settings, updateSettings } = useNotifications();
+  const [thresholds, setThresholds] = useState<number[]>(settings.budget_thresholds);
+  const [browser, setBrowser] = useState(settings.browser_notifications);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setThresholds(settings.budget_thresholds);
+      setBrowser(settings.browser_notifications);
+    }
+  }, [open]);
+
+  const toggleThreshold = (threshold: number, checked: boolean) => {
+    setThresholds(prev => checked
+      ? [...prev, threshold].sort((a, b) => a - b)
+      : prev.filter(t => t !== threshold));
+  };
+
+  const toggleBrowser = async (checked: boolean) => {
+    if (checked && window.Notification.permission !== 'granted') {
+      const permission = await window.Notification.requestPermission();
+      if (permission !== 'granted') {
+        toast.error('Permissão de notificações negada pelo navegador');
+        return;
+      }
+    }
+    setBrowser(checked);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await updateSettings({ budget_thresholds: thresholds, browser_notifications: browser });
+      toast.success('Preferências salvas!');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Erro ao salvar preferências');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Alertas de orçamento</DialogTitle>
+          <DialogDescription>
+            Avisamos quando os gastos de uma categoria no período do orçamento atingem estes percentuais do orçamento.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 pt-2">
+          <div className="flex flex-wrap gap-6">
+            {BUDGET_THRESHOLDS.map((threshold) => (
+              <div key={threshold} className="flex items-center gap-2">
+                <Checkbox
+                  id={`threshold-${threshold}`}
+                  checked={thresholds.includes(threshold)}
+                  onCheckedChange={(checked) => toggleThreshold(threshold, checked === true)}
+                />
+                <Label htmlFor={`threshold-${threshold}`}>{threshold}%</Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="browser-notifications">Notificações do navegador</Label>
+              <p className="text-xs text-muted-foreground">
+                {browserSupported
+                  ? 'Mostra os alertas também fora da aba do app'
+                  : 'Este navegador não suporta notificações'}
+              </p>
+            </div>
+            <Switch
+              id="browser-notifications"
+              checked={browser}
+              onCheckedChange={toggleBrowser}
+              disabled={!browserSupported}
+            />
+          </div>
+
+          <Button onClick={handleSave} className="w-full" disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Salvar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Bell, Settings } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { NotificationSettingsDialog } from '@/components/notifications/NotificationSettingsDialog';
+import { useNotifications } from '@/hooks/useNotifications';
+import type { Notification } from '@/lib/notifications';
+import { cn } from '@/lib/utils';
+
+interface NotificationsInboxProps {
+  className?: string;
+  side?: 'bottom' | 'right';
+}
+
+export function NotificationsInbox({ className, side = 'bottom' }: NotificationsInboxProps) {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.read_at) markAsRead(notification.id);
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className={cn("relative", className)}>
+            <Bell className="w-5 h-5" />
+            {unreadCount > 0 && (
+              <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-bold leading-4">
+                {unreadCount > 9 ? '9+' : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent side={side} align="end" className="w-80 p-0">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+            <h3 className="font-semibold">Notificações</h3>
+            <div className="flex items-center gap-1">
+              {unreadCount > 0 && (
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={markAllAsRead}>
+                  Marcar todas como lidas
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => {
+                  setOpen(false);
+                  setSettingsOpen(true);
+                }}
+              >
+                <Settings className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Nenhuma notificação</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-border">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleSelect(notification)}
+                    className={cn(
+                      "w-full text-left px-4 py-3 hover:bg-muted/50 transition-colors",
+                      !notification.read_at && "bg-primary/5"
+                    )}
+                  >
+                    <div className="flex items-start gap-2">
+                      {!notification.read_at && <span className="mt-1.5 w-2 h-2 rounded-full bg-primary shrink-0" />}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium">{notification.title}</p>
+                        <p className="text-xs text-muted-foreground">{notification.message}</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true, locale: ptBR })}
+                        </p>
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <NotificationSettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
+    </>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, CalendarRange } from 'lucide-react';
+import { usePeriod } from '@/hooks/usePeriod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { toast } from 'sonner';
+
+export function PeriodSelector() {
+  const { period, shiftMonth, setMonth, setRange, setYearToDate } = usePeriod();
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState(period.from);
+  const [to, setTo] = useState(period.to);
+
+  const handleOpenChange = (value: boolean) => {
+    if (value) {
+      setFrom(period.from);
+      setTo(period.to);
+    }
+    setOpen(value);
+  };
+
+  const applyRange = () => {
+    if (!from || !to || from > to) {
+      toast.error('Informe um período válido');
+      return;
+    }
+    setRange(from, to);
+    setOpen(false);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button variant="outline" size="icon" onClick={() => shiftMonth(-1)}>
+        <ChevronLeft className="w-4 h-4" />
+      </Button>
+
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="gap-2 min-w-44">
+            <CalendarRange className="w-4 h-4" />
+            {period.label}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => {
+                setMonth(new Date());
+                setOpen(false);
+              }}
+            >
+              Mês atual
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => {
+                setYearToDate();
+                setOpen(false);
+              }}
+            >
+              Ano até hoje
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>De</Label>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Até</Label>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <Button onClick={applyRange} className="w-full">
+            Aplicar período
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      <Button variant="outline" size="icon" onClick={() => shiftMonth(1)}>
+        <ChevronRight className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
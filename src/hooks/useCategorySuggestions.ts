@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  createCategoryModel,
+  fetchTrainingExamples,
+  learnExample,
+  suggestCategories,
+  trainCategoryModel,
+} from '@/lib/suggestions';
+
+// A category picked over the top suggestion counts as this many examples, so
+// the model stops repeating the same mistake within the session
+const CORRECTION_WEIGHT = 3;
+
+interface LearnOptions {
+  // What the expense had before an edit, taken out of the model
+  previous?: { description: string | null; categoryId: string | null };
+  corrected?: boolean;
+}
+
+// Suggests categories from the user's own categorized expenses. The model is
+// trained in the browser when the page opens and follows the expenses saved
+// afterwards, without waiting for a reload.
+export function useCategorySuggestions(userId: string | undefined) {
+  const modelRef = useRef(createCategoryModel());
+  // Bumped whenever the model changes, so the page renders new suggestions
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    fetchTrainingExamples(userId)
+      .then(examples => {
+        if (cancelled) return;
+        modelRef.current = trainCategoryModel(examples);
+        setVersion(v => v + 1);
+      })
+      .catch(error => console.error('Error training category suggestions:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const suggest = (description: string) => suggestCategories(modelRef.current, description);
+
+  const learn = (description: string | null, categoryId: string | null, options: LearnOptions = {}) => {
+    const { previous, corrected } = options;
+    if (previous?.description && previous.categoryId) {
+      learnExample(modelRef.current, previous.description, previous.categoryId, -1);
+    }
+    if (description && categoryId) {
+      learnExample(modelRef.current, description, categoryId, corrected ? CORRECTION_WEIGHT : 1);
+    }
+    setVersion(v => v + 1);
+  };
+
+  return { suggest, learn };
+}
@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  DEFAULT_EXPENSE_FILTERS,
+  ExpenseFilters,
+  resolveExpenseFilters,
+  writeExpenseFilters,
+} from '@/lib/expenseFilters';
+
+// Search, filters and sorting of the expenses list live in the URL, next to the
+// period params, so a filtered list can be bookmarked or shared
+export function useExpenseFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => resolveExpenseFilters(searchParams), [searchParams]);
+
+  const updateFilters = (values: Partial<ExpenseFilters>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      writeExpenseFilters(next, { ...resolveExpenseFilters(prev), ...values });
+      return next;
+    }, { replace: true });
+  };
+
+  const resetFilters = () => {
+    updateFilters({ ...DEFAULT_EXPENSE_FILTERS, sort: filters.sort, ascending: filters.ascending });
+  };
+
+  return { filters, updateFilters, resetFilters };
+}
@@ -0,0 +1,140 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  Notification,
+  NotificationSettings,
+  evaluateBudgetAlerts,
+  fetchNotificationSettings,
+  saveNotificationSettings,
+} from '@/lib/notifications';
+
+const INBOX_SIZE = 50;
+
+interface NotificationsContextType {
+  notifications: Notification[];
+  unreadCount: number;
+  settings: NotificationSettings;
+  checkBudgets: (expenseDates: string[]) => Promise<void>;
+  markAsRead: (id: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+  updateSettings: (settings: NotificationSettings) => Promise<void>;
+}
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+function showBrowserNotification(notification: Notification) {
+  if (typeof window === 'undefined' || !('Notification' in window)) return;
+  if (window.Notification.permission !== 'granted') return;
+  new window.Notification(notification.title, { body: notification.message, tag: notification.id });
+}
+
+export function NotificationsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      setSettings(DEFAULT_NOTIFICATION_SETTINGS);
+      return;
+    }
+
+    fetchNotificationSettings(user.id)
+      .then(setSettings)
+      .catch(error => console.error('Error fetching notification settings:', error));
+
+    supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(INBOX_SIZE)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching notifications:', error);
+          return;
+        }
+        setNotifications(data);
+      });
+  }, [user]);
+
+  // Runs after expenses are created or edited; new alerts go to the inbox and
+  // are announced with a toast (and a browser notification when enabled).
+  // Settings are read again because callers may hold an older render's callback.
+  const checkBudgets = async (expenseDates: string[]) => {
+    if (!user) return;
+
+    try {
+      const current = await fetchNotificationSettings(user.id);
+      const created = await evaluateBudgetAlerts(user.id, expenseDates, current);
+      if (created.length === 0) return;
+
+      setNotifications(prev => [...created, ...prev].slice(0, INBOX_SIZE));
+      created.forEach(notification => {
+        toast.warning(notification.title, { description: notification.message });
+        if (current.browser_notifications) showBrowserNotification(notification);
+      });
+    } catch (error) {
+      console.error('Error checking budgets:', error);
+    }
+  };
+
+  const markAsRead = async (id: string) => {
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating notification:', error);
+      return;
+    }
+    setNotifications(prev => prev.map(n => n.id === id ? { ...n, read_at: readAt } : n));
+  };
+
+  const markAllAsRead = async () => {
+    if (!user) return;
+
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Error updating notifications:', error);
+      return;
+    }
+    setNotifications(prev => prev.map(n => n.read_at ? n : { ...n, read_at: readAt }));
+  };
+
+  const updateSettings = async (next: NotificationSettings) => {
+    if (!user) return;
+    await saveNotificationSettings(user.id, next);
+    setSettings(next);
+  };
+
+  const unreadCount = notifications.filter(n => !n.read_at).length;
+
+  return (
+    <NotificationsContext.Provider
+      value={{ notifications, unreadCount, settings, checkBudgets, markAsRead, markAllAsRead, updateSettings }}
+    >
+      {children}
+    </NotificationsContext.Provider>
+  );
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationsContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,108 @@
+import { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { addMonths, endOfMonth, format, isValid, parseISO, startOfMonth, startOfYear } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toISODate } from '@/lib/dates';
+
+export type PeriodMode = 'month' | 'range' | 'ytd';
+
+export interface Period {
+  mode: PeriodMode;
+  from: string;
+  to: string;
+  label: string;
+}
+
+const PERIOD_PARAMS = ['month', 'from', 'to', 'period'];
+
+function parseDateParam(value: string | null): Date | null {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+}
+
+function monthPeriod(date: Date): Period {
+  const label = format(date, "MMMM 'de' yyyy", { locale: ptBR });
+  return {
+    mode: 'month',
+    from: toISODate(startOfMonth(date)),
+    to: toISODate(endOfMonth(date)),
+    label: label.charAt(0).toUpperCase() + label.slice(1),
+  };
+}
+
+export function resolvePeriod(params: URLSearchParams, today: Date = new Date()): Period {
+  if (params.get('period') === 'ytd') {
+    return {
+      mode: 'ytd',
+      from: toISODate(startOfYear(today)),
+      to: toISODate(today),
+      label: `${format(today, 'yyyy')} até hoje`,
+    };
+  }
+
+  const from = parseDateParam(params.get('from'));
+  const to = parseDateParam(params.get('to'));
+  if (from && to && from <= to) {
+    return {
+      mode: 'range',
+      from: toISODate(from),
+      to: toISODate(to),
+      label: `${format(from, 'dd/MM/yyyy')} – ${format(to, 'dd/MM/yyyy')}`,
+    };
+  }
+
+  const month = params.get('month');
+  const monthDate = month && /^\d{4}-\d{2}$/.test(month) ? parseDateParam(`${month}-01`) : null;
+  return monthPeriod(monthDate ?? today);
+}
+
+// Keeps only the period params of a query string so navigation can carry the
+// selected period between pages without leaking page-specific filters
+export function getPeriodSearch(search: string): string {
+  const params = new URLSearchParams(search);
+  const next = new URLSearchParams();
+  PERIOD_PARAMS.forEach(key => {
+    const value = params.get(key);
+    if (value) next.set(key, value);
+  });
+  const result = next.toString();
+  return result ? `?${result}` : '';
+}
+
+export function usePeriod() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const period = useMemo(() => resolvePeriod(searchParams), [searchParams]);
+
+  const updatePeriod = (values: Record<string, string>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      PERIOD_PARAMS.forEach(key => next.delete(key));
+      Object.entries(values).forEach(([key, value]) => next.set(key, value));
+      return next;
+    });
+  };
+
+  const setMonth = (date: Date) => {
+    updatePeriod({ month: format(date, 'yyyy-MM') });
+  };
+
+  const shiftMonth = (delta: number) => {
+    const base = parseISO(period.mode === 'month' ? period.from : period.to);
+    setMonth(addMonths(base, delta));
+  };
+
+  const setRange = (from: string, to: string) => {
+    updatePeriod({ from, to });
+  };
+
+  const setYearToDate = () => {
+    updatePeriod({ period: 'ytd' });
+  };
+
+  const resetPeriod = () => {
+    updatePeriod({});
+  };
+
+  return { period, setMonth, shiftMonth, setRange, setYearToDate, resetPeriod };
+}
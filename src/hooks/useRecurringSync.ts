@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useNotifications } from '@/hooks/useNotifications';
+import { materializeRecurringExpenses } from '@/lib/recurrence';
+
+// Recurring expenses are materialized once per session, when the app is opened
+const syncedUsers = new Set<string>();
+
+export function useRecurringSync(userId: string | undefined) {
+  const [syncing, setSyncing] = useState(() => !!userId && !syncedUsers.has(userId));
+  const { checkBudgets } = useNotifications();
+
+  useEffect(() => {
+    if (!userId || syncedUsers.has(userId)) {
+      setSyncing(false);
+      return;
+    }
+
+    syncedUsers.add(userId);
+    setSyncing(true);
+
+    materializeRecurringExpenses(userId)
+      .then(created => {
+        if (created.length > 0) {
+          toast.success(`${created.length} despesas recorrentes lançadas`);
+          // A backfill can push the budgets of earlier months over too
+          checkBudgets(created);
+        }
+      })
+      .catch(error => console.error('Error materializing recurring expenses:', error))
+      .finally(() => setSyncing(false));
+  }, [userId]);
+
+  return syncing;
+}
@@ -14,59 +14,269 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounts: {
+        Row: {
+          closing_day: number | null
+          color: string
+          created_at: string
+          due_day: number | null
+          id: string
+          is_archived: boolean
+          name: string
+          opening_balance: number
+          opening_date: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          closing_day?: number | null
+          color?: string
+          created_at?: string
+          due_day?: number | null
+          id?: string
+          is_archived?: boolean
+          name: string
+          opening_balance?: number
+          opening_date?: string
+          type?: string
+          user_id: string
+        }
+        Update: {
+          closing_day?: number | null
+          color?: string
+          created_at?: string
+          due_day?: number | null
+          id?: string
+          is_archived?: boolean
+          name?: string
+          opening_balance?: number
+          opening_date?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       categories: {
         Row: {
           budget: number
+          budget_period: string
+          budget_start_day: number
           color: string
           created_at: string
           icon: string
           id: string
           name: string
+          rollover_from: string | null
           user_id: string
         }
         Insert: {
           budget?: number
+          budget_period?: string
+          budget_start_day?: number
           color?: string
           created_at?: string
           icon?: string
           id?: string
           name: string
+          rollover_from?: string | null
           user_id: string
         }
         Update: {
           budget?: number
+          budget_period?: string
+          budget_start_day?: number
           color?: string
           created_at?: string
           icon?: string
           id?: string
           name?: string
+          rollover_from?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      category_budgets: {
+        Row: {
+          amount: number
+          category_id: string
+          created_at: string
+          id: string
+          month: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number
+          category_id: string
+          created_at?: string
+          id?: string
+          month: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string
+          created_at?: string
+          id?: string
+          month?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_rules: {
+        Row: {
+          category_id: string
+          created_at: string
+          id: string
+          is_active: boolean
+          match_type: string
+          max_amount: number | null
+          min_amount: number | null
+          name: string
+          pattern: string | null
+          position: number
+          user_id: string
+          weekdays: number[]
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          match_type?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name: string
+          pattern?: string | null
+          position?: number
+          user_id: string
+          weekdays?: number[]
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          match_type?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name?: string
+          pattern?: string | null
+          position?: number
+          user_id?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       challenge_40k: {
         Row: {
           created_at: string
+          deadline: string | null
+          from_account_id: string | null
           id: string
           is_active: boolean
+          name: string
+          start_date: string
           target_value: number
+          template: string
+          to_account_id: string | null
           user_id: string
         }
         Insert: {
           created_at?: string
+          deadline?: string | null
+          from_account_id?: string | null
           id?: string
           is_active?: boolean
+          name?: string
+          start_date?: string
           target_value?: number
+          template?: string
+          to_account_id?: string | null
           user_id: string
         }
         Update: {
           created_at?: string
+          deadline?: string | null
+          from_account_id?: string | null
           id?: string
           is_active?: boolean
+          name?: string
+          start_date?: string
           target_value?: number
+          template?: string
+          to_account_id?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "challenge_40k_from_account_id_fkey"
+            columns: ["from_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "challenge_40k_to_account_id_fkey"
+            columns: ["to_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      challenge_deposit_events: {
+        Row: {
+          created_at: string
+          deposit_id: string
+          from_status: string
+          id: string
+          is_undo: boolean
+          to_status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          deposit_id: string
+          from_status: string
+          id?: string
+          is_undo?: boolean
+          to_status: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          deposit_id?: string
+          from_status?: string
+          id?: string
+          is_undo?: boolean
+          to_status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "challenge_deposit_events_deposit_id_fkey"
+            columns: ["deposit_id"]
+            isOneToOne: false
+            referencedRelation: "challenge_deposits"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       challenge_deposits: {
         Row: {
@@ -77,6 +287,7 @@ export type Database = {
           id: string
           sequence_order: number
           status: string
+          transfer_id: string | null
         }
         Insert: {
           challenge_id: string
@@ -86,6 +297,7 @@ export type Database = {
           id?: string
           sequence_order: number
           status?: string
+          transfer_id?: string | null
         }
         Update: {
           challenge_id?: string
@@ -95,6 +307,7 @@ export type Database = {
           id?: string
           sequence_order?: number
           status?: string
+          transfer_id?: string | null
         }
         Relationships: [
           {
@@ -104,34 +317,65 @@ export type Database = {
             referencedRelation: "challenge_40k"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "challenge_deposits_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "transfers"
+            referencedColumns: ["id"]
+          },
         ]
       }
       expenses: {
         Row: {
+          account_id: string | null
           amount: number
           category_id: string | null
           created_at: string
           description: string | null
           expense_date: string
+          external_account: string | null
+          external_id: string | null
           id: string
+          installment_number: number | null
+          installment_purchase_id: string | null
+          is_pending: boolean
+          recurring_expense_id: string | null
+          tags: string[]
           user_id: string
         }
         Insert: {
+          account_id?: string | null
           amount: number
           category_id?: string | null
           created_at?: string
           description?: string | null
           expense_date?: string
+          external_account?: string | null
+          external_id?: string | null
           id?: string
+          installment_number?: number | null
+          installment_purchase_id?: string | null
+          is_pending?: boolean
+          recurring_expense_id?: string | null
+          tags?: string[]
           user_id: string
         }
         Update: {
+          account_id?: string | null
           amount?: number
           category_id?: string | null
           created_at?: string
           description?: string | null
           expense_date?: string
+          external_account?: string | null
+          external_id?: string | null
           id?: string
+          installment_number?: number | null
+          installment_purchase_id?: string | null
+          is_pending?: boolean
+          recurring_expense_id?: string | null
+          tags?: string[]
           user_id?: string
         }
         Relationships: [
@@ -142,38 +386,348 @@ export type Database = {
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "expenses_recurring_expense_id_fkey"
+            columns: ["recurring_expense_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_installment_purchase_id_fkey"
+            columns: ["installment_purchase_id"]
+            isOneToOne: false
+            referencedRelation: "installment_purchases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      installment_purchases: {
+        Row: {
+          account_id: string | null
+          category_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          installment_count: number
+          purchase_date: string
+          total_amount: number
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          installment_count: number
+          purchase_date?: string
+          total_amount: number
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          installment_count?: number
+          purchase_date?: string
+          total_amount?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "installment_purchases_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "installment_purchases_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_settings: {
+        Row: {
+          browser_notifications: boolean
+          budget_thresholds: number[]
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          browser_notifications?: boolean
+          budget_thresholds?: number[]
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          browser_notifications?: boolean
+          budget_thresholds?: number[]
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          id: string
+          link: string | null
+          message: string
+          period_key: string | null
+          read_at: string | null
+          threshold: number | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          message: string
+          period_key?: string | null
+          read_at?: string | null
+          threshold?: number | null
+          title: string
+          type?: string
+          user_id: string
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          message?: string
+          period_key?: string | null
+          read_at?: string | null
+          threshold?: number | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
         ]
       }
       payments: {
         Row: {
+          account_id: string | null
           amount: number
+          category: string
           created_at: string
+          description: string | null
+          external_account: string | null
+          external_id: string | null
           id: string
           payment_date: string
+          source: string | null
           user_id: string
         }
         Insert: {
+          account_id?: string | null
           amount: number
+          category?: string
           created_at?: string
+          description?: string | null
+          external_account?: string | null
+          external_id?: string | null
           id?: string
           payment_date?: string
+          source?: string | null
           user_id: string
         }
         Update: {
+          account_id?: string | null
           amount?: number
+          category?: string
           created_at?: string
+          description?: string | null
+          external_account?: string | null
+          external_id?: string | null
           id?: string
           payment_date?: string
+          source?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "payments_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_expenses: {
+        Row: {
+          account_id: string | null
+          amount: number
+          category_id: string | null
+          created_at: string
+          day_of_month: number | null
+          description: string
+          end_date: string | null
+          frequency: string
+          id: string
+          interval_days: number | null
+          is_active: boolean
+          last_generated_date: string | null
+          requires_confirmation: boolean
+          start_date: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          day_of_month?: number | null
+          description: string
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          interval_days?: number | null
+          is_active?: boolean
+          last_generated_date?: string | null
+          requires_confirmation?: boolean
+          start_date?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          day_of_month?: number | null
+          description?: string
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          interval_days?: number | null
+          is_active?: boolean
+          last_generated_date?: string | null
+          requires_confirmation?: boolean
+          start_date?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_expenses_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_expenses_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transfers: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string | null
+          from_account_id: string
+          id: string
+          to_account_id: string
+          transfer_date: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description?: string | null
+          from_account_id: string
+          id?: string
+          to_account_id: string
+          transfer_date?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string | null
+          from_account_id?: string
+          id?: string
+          to_account_id?: string
+          transfer_date?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transfers_from_account_id_fkey"
+            columns: ["from_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfers_to_account_id_fkey"
+            columns: ["to_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_expense_tag: {
+        Args: {
+          p_expense_ids: string[]
+          p_tag: string
+        }
+        Returns: number
+      }
+      get_expense_totals: {
+        Args: {
+          p_category_ids?: string[]
+          p_from: string
+          p_max_amount?: number
+          p_min_amount?: number
+          p_search?: string
+          p_to: string
+          p_uncategorized?: boolean
+        }
+        Returns: {
+          expense_count: number
+          total_amount: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,162 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toISODate } from '@/lib/dates';
+import { fetchAllPages } from '@/lib/paging';
+
+export type Account = Tables<'accounts'>;
+export type Transfer = Tables<'transfers'>;
+
+export type AccountType = 'checking' | 'savings' | 'cash' | 'credit_card' | 'investment';
+
+export const ACCOUNT_TYPES: Record<AccountType, string> = {
+  checking: 'Conta corrente',
+  savings: 'Poupança',
+  cash: 'Dinheiro',
+  credit_card: 'Cartão de crédito',
+  investment: 'Investimentos',
+};
+
+export const ACCOUNT_COLORS = ['#10b981', '#3b82f6', '#a855f7', '#f59e0b', '#ef4444', '#64748b'];
+
+export type MovementKind = 'expense' | 'income' | 'transfer_in' | 'transfer_out';
+
+export interface Movement {
+  id: string;
+  kind: MovementKind;
+  date: string;
+  description: string;
+  // Signed: negative values leave the account
+  amount: number;
+}
+
+export interface StatementLine extends Movement {
+  balance: number;
+}
+
+type AccountExpense = Pick<
+  Tables<'expenses'>,
+  'id' | 'account_id' | 'amount' | 'expense_date' | 'description' | 'installment_number'
+> & {
+  installment: { installment_count: number } | null;
+};
+
+export interface AccountMovements {
+  expenses: AccountExpense[];
+  payments: Pick<Tables<'payments'>, 'id' | 'account_id' | 'amount' | 'payment_date' | 'description' | 'source'>[];
+  transfers: Transfer[];
+}
+
+// Every movement ever linked to an account, page by page since the balances
+// need all of them and a request returns at most 1000 rows
+export async function fetchAccountMovements(userId: string): Promise<AccountMovements> {
+  const [expenses, payments, transfers] = await Promise.all([
+    fetchAllPages((from, to) =>
+      supabase
+        .from('expenses')
+        .select('id, account_id, amount, expense_date, description, installment_number, installment:installment_purchases(installment_count)')
+        .eq('user_id', userId)
+        .not('account_id', 'is', null)
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllPages((from, to) =>
+      supabase
+        .from('payments')
+        .select('id, account_id, amount, payment_date, description, source')
+        .eq('user_id', userId)
+        .not('account_id', 'is', null)
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllPages((from, to) =>
+      supabase
+        .from('transfers')
+        .select('*')
+        .eq('user_id', userId)
+        .order('id')
+        .range(from, to)
+    ),
+  ]);
+
+  return { expenses, payments, transfers };
+}
+
+export function describeExpense(expense: AccountExpense): string {
+  const description = expense.description || 'Despesa';
+  return expense.installment
+    ? `${description} (${expense.installment_number}/${expense.installment.installment_count})`
+    : description;
+}
+
+export function getAccountMovements(
+  account: Account,
+  movements: AccountMovements,
+  accountNames: Map<string, string>
+): Movement[] {
+  const list: Movement[] = [
+    ...movements.expenses
+      .filter(e => e.account_id === account.id)
+      .map(e => ({
+        id: e.id,
+        kind: 'expense' as const,
+        date: e.expense_date,
+        description: describeExpense(e),
+        amount: -Number(e.amount),
+      })),
+    ...movements.payments
+      .filter(p => p.account_id === account.id)
+      .map(p => ({
+        id: p.id,
+        kind: 'income' as const,
+        date: p.payment_date,
+        description: p.source || p.description || 'Receita',
+        amount: Number(p.amount),
+      })),
+    ...movements.transfers
+      .filter(t => t.from_account_id === account.id)
+      .map(t => ({
+        id: t.id,
+        kind: 'transfer_out' as const,
+        date: t.transfer_date,
+        description: t.description || `Para ${accountNames.get(t.to_account_id) ?? 'outra conta'}`,
+        amount: -Number(t.amount),
+      })),
+    ...movements.transfers
+      .filter(t => t.to_account_id === account.id)
+      .map(t => ({
+        id: t.id,
+        kind: 'transfer_in' as const,
+        date: t.transfer_date,
+        description: t.description || `De ${accountNames.get(t.from_account_id) ?? 'outra conta'}`,
+        amount: Number(t.amount),
+      })),
+  ];
+
+  return list.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// The opening balance is what the account held on its opening date, so older
+// movements (e.g. imported history) don't change the running balance
+export function getStatement(account: Account, movements: Movement[]): StatementLine[] {
+  let balance = Number(account.opening_balance);
+  return movements
+    .filter(m => m.date >= account.opening_date)
+    .map(m => {
+      balance += m.amount;
+      return { ...m, balance };
+    });
+}
+
+// Future-dated movements (e.g. upcoming card installments) don't count yet
+export function getBalanceAt(account: Account, statement: StatementLine[], date: string): number {
+  const past = statement.filter(line => line.date <= date);
+  return past.length > 0 ? past[past.length - 1].balance : Number(account.opening_balance);
+}
+
+export function getAccountBalance(
+  account: Account,
+  movements: Movement[],
+  date: string = toISODate(new Date())
+): number {
+  return getBalanceAt(account, getStatement(account, movements), date);
+}
@@ -0,0 +1,806 @@
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { normalizeText } from '@/lib/import';
+import { fetchAllPages } from '@/lib/paging';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida');
+
+export const backupSchema = z.object({
+  version: z.literal(1),
+  exported_at: z.string(),
+  period: z.object({ from: isoDate, to: isoDate }),
+  // A JSON export only carries the tables picked on export and their parents
+  data: z.object({
+    categories: z.array(z.object({
+      id: z.string().uuid(),
+      name: z.string().min(1),
+      color: z.string(),
+      icon: z.string(),
+      budget: z.coerce.number(),
+      budget_period: z.enum(['weekly', 'monthly', 'quarterly', 'yearly']).optional(),
+      budget_start_day: z.coerce.number().int().min(1).max(31).optional(),
+      rollover_from: isoDate.nullable().optional(),
+    })).default([]),
+    // Older backups were taken before budgets had a history
+    category_budgets: z.array(z.object({
+      category_id: z.string().uuid(),
+      month: isoDate,
+      amount: z.coerce.number(),
+    })).default([]),
+    // Older backups were taken before categorization rules existed
+    category_rules: z.array(z.object({
+      category_id: z.string().uuid(),
+      name: z.string().min(1),
+      match_type: z.enum(['contains', 'starts_with', 'regex']),
+      pattern: z.string().nullable(),
+      min_amount: z.coerce.number().nullable(),
+      max_amount: z.coerce.number().nullable(),
+      weekdays: z.array(z.number().int().min(0).max(6)),
+      position: z.number().int(),
+      is_active: z.boolean(),
+    })).default([]),
+    // Older backups were taken before accounts and transfers existed
+    accounts: z.array(z.object({
+      id: z.string().uuid(),
+      name: z.string().min(1),
+      type: z.enum(['checking', 'savings', 'cash', 'credit_card', 'investment']),
+      color: z.string(),
+      opening_balance: z.coerce.number(),
+      opening_date: isoDate,
+      is_archived: z.boolean(),
+      closing_day: z.coerce.number().int().min(1).max(31).nullable().optional(),
+      due_day: z.coerce.number().int().min(1).max(31).nullable().optional(),
+    })).default([]),
+    // Older backups were taken before installment purchases existed
+    installment_purchases: z.array(z.object({
+      id: z.string().uuid(),
+      account_id: z.string().uuid().nullable(),
+      category_id: z.string().uuid().nullable(),
+      description: z.string().nullable(),
+      total_amount: z.coerce.number().positive(),
+      installment_count: z.coerce.number().int().min(2).max(48),
+      purchase_date: isoDate,
+    })).default([]),
+    // Older backups were taken before recurring expenses existed
+    recurring_expenses: z.array(z.object({
+      id: z.string().uuid(),
+      category_id: z.string().uuid().nullable(),
+      account_id: z.string().uuid().nullable().optional(),
+      amount: z.coerce.number(),
+      description: z.string().min(1),
+      frequency: z.enum(['weekly', 'monthly', 'yearly', 'custom']),
+      interval_days: z.coerce.number().int().positive().nullable(),
+      day_of_month: z.coerce.number().int().min(1).max(31).nullable(),
+      start_date: isoDate,
+      end_date: isoDate.nullable(),
+      requires_confirmation: z.boolean(),
+      is_active: z.boolean(),
+      last_generated_date: isoDate.nullable(),
+    })).default([]),
+    expenses: z.array(z.object({
+      id: z.string().uuid(),
+      category_id: z.string().uuid().nullable(),
+      amount: z.coerce.number(),
+      description: z.string().nullable(),
+      expense_date: isoDate,
+      account_id: z.string().uuid().nullable().optional(),
+      external_id: z.string().nullable().optional(),
+      external_account: z.string().nullable().optional(),
+      tags: z.array(z.string()).optional(),
+      recurring_expense_id: z.string().uuid().nullable().optional(),
+      is_pending: z.boolean().optional(),
+      installment_purchase_id: z.string().uuid().nullable().optional(),
+      installment_number: z.coerce.number().int().positive().nullable().optional(),
+    })).default([]),
+    payments: z.array(z.object({
+      id: z.string().uuid(),
+      amount: z.coerce.number(),
+      payment_date: isoDate,
+      source: z.string().nullable().optional(),
+      description: z.string().nullable().optional(),
+      category: z.enum(['salary', 'freelance', 'dividends', 'thirteenth', 'other']).optional(),
+      account_id: z.string().uuid().nullable().optional(),
+      external_id: z.string().nullable().optional(),
+      external_account: z.string().nullable().optional(),
+    })).default([]),
+    transfers: z.array(z.object({
+      id: z.string().uuid(),
+      from_account_id: z.string().uuid(),
+      to_account_id: z.string().uuid(),
+      amount: z.coerce.number(),
+      description: z.string().nullable(),
+      transfer_date: isoDate,
+    })).default([]),
+    challenges: z.array(z.object({
+      id: z.string().uuid(),
+      target_value: z.coerce.number(),
+      is_active: z.boolean(),
+      template: z.enum(['ladder', 'reverse_ladder', 'weeks52', 'fixed', 'envelopes', 'split']).optional(),
+      name: z.string().min(1).optional(),
+      start_date: isoDate.optional(),
+      deadline: isoDate.nullable().optional(),
+      from_account_id: z.string().uuid().nullable().optional(),
+      to_account_id: z.string().uuid().nullable().optional(),
+    })).default([]),
+    challenge_deposits: z.array(z.object({
+      id: z.string().uuid(),
+      challenge_id: z.string().uuid(),
+      deposit_value: z.number().int(),
+      sequence_order: z.number().int(),
+      status: z.enum(['pending', 'completed', 'skipped']),
+      completed_at: z.string().nullable(),
+      transfer_id: z.string().uuid().nullable().optional(),
+    })).default([]),
+  }),
+}).superRefine((backup, ctx) => {
+  const categoryIds = new Set(backup.data.categories.map(c => c.id));
+  backup.data.category_budgets.forEach((budget, index) => {
+    if (!categoryIds.has(budget.category_id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['data', 'category_budgets', index, 'category_id'],
+        message: 'Orçamento referencia uma categoria que não está no arquivo',
+      });
+    }
+  });
+
+  backup.data.category_rules.forEach((rule, index) => {
+    if (!categoryIds.has(rule.category_id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['data', 'category_rules', index, 'category_id'],
+        message: 'Regra referencia uma categoria que não está no arquivo',
+      });
+    }
+  });
+
+  const challengeIds = new Set(backup.data.challenges.map(c => c.id));
+  backup.data.challenge_deposits.forEach((deposit, index) => {
+    if (!challengeIds.has(deposit.challenge_id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['data', 'challenge_deposits', index, 'challenge_id'],
+        message: 'Depósito referencia um desafio que não está no arquivo',
+      });
+    }
+  });
+
+  const accountIds = new Set(backup.data.accounts.map(a => a.id));
+  backup.data.transfers.forEach((transfer, index) => {
+    if (!accountIds.has(transfer.from_account_id) || !accountIds.has(transfer.to_account_id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['data', 'transfers', index],
+        message: 'Transferência referencia uma conta que não está no arquivo',
+      });
+    }
+  });
+});
+
+export type Backup = z.infer<typeof backupSchema>;
+
+export interface RestoreSummary {
+  categoriesCreated: number;
+  categoriesMatched: number;
+  budgetsRestored: number;
+  rulesCreated: number;
+  accountsCreated: number;
+  accountsMatched: number;
+  recurringCreated: number;
+  installmentPurchasesCreated: number;
+  expensesCreated: number;
+  expensesRelinked: number;
+  paymentsCreated: number;
+  transfersCreated: number;
+  challengesCreated: number;
+  depositsRestored: number;
+  // Rows with a new id whose content was already in the account
+  duplicatesSkipped: number;
+}
+
+const CHUNK_SIZE = 200;
+// Imported statement rows are skipped if the same bank transaction is already there
+const EXTERNAL_CONFLICT_COLUMNS = 'user_id,external_account,external_id';
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+// What a movement records, to recognise one restored before under another id
+function contentKey(date: string, amount: number, description: string | null | undefined, accounts: (string | null)[]) {
+  return [date, Math.round(Math.abs(Number(amount)) * 100), normalizeText(description ?? ''), ...accounts.map(id => id ?? '')]
+    .join('|');
+}
+
+// Ids of the rows already in the account, by content key. Each one stands for a
+// single backup row, so two identical expenses in the file need two in the account.
+function groupByContent<T extends { id: string }>(rows: T[], key: (row: T) => string) {
+  const groups = new Map<string, string[]>();
+  rows.forEach(row => {
+    const rowKey = key(row);
+    groups.set(rowKey, [...(groups.get(rowKey) ?? []), row.id]);
+  });
+  return groups;
+}
+
+function takeMatch(groups: Map<string, string[]>, key: string): string | undefined {
+  return groups.get(key)?.shift();
+}
+
+function dateRange(dates: string[]): [string, string] | null {
+  if (dates.length === 0) return null;
+  const sorted = [...dates].sort();
+  return [sorted[0], sorted[sorted.length - 1]];
+}
+
+export function parseBackup(text: string): Backup {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('O arquivo não é um JSON válido');
+  }
+
+  const result = backupSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new Error(`Backup inválido em ${issue.path.join('.')}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+async function fetchExistingIds(
+  table: 'recurring_expenses' | 'installment_purchases' | 'expenses' | 'payments' | 'transfers' | 'challenge_40k',
+  userId: string,
+  ids: string[]
+) {
+  const existing = new Map<string, { id: string; category_id?: string | null }>();
+  for (const batch of chunk(ids)) {
+    const { data, error } = table === 'expenses'
+      ? await supabase.from('expenses').select('id, category_id').eq('user_id', userId).in('id', batch)
+      : await supabase.from(table).select('id').eq('user_id', userId).in('id', batch);
+
+    if (error) throw error;
+    data.forEach(row => existing.set(row.id, row));
+  }
+  return existing;
+}
+
+// Restores a backup into the current account. Rows whose id still exists are kept
+// as they are, so restoring into the same project only brings back what was lost
+// (e.g. a deleted category and the links of the expenses that pointed to it).
+// Movements and challenges already there with the same content are skipped too,
+// so restoring a file twice into another project doesn't duplicate them.
+// Everything else is created with new ids and remapped foreign keys.
+//
+// The writes are not a transaction: when one fails, what was written before it
+// stays. Restoring the same file again picks up where it stopped, since the rows
+// already written are matched and skipped.
+export async function restoreBackup(userId: string, backup: Backup): Promise<RestoreSummary> {
+  const { data } = backup;
+  const summary: RestoreSummary = {
+    categoriesCreated: 0,
+    categoriesMatched: 0,
+    budgetsRestored: 0,
+    rulesCreated: 0,
+    accountsCreated: 0,
+    accountsMatched: 0,
+    recurringCreated: 0,
+    installmentPurchasesCreated: 0,
+    expensesCreated: 0,
+    expensesRelinked: 0,
+    paymentsCreated: 0,
+    transfersCreated: 0,
+    challengesCreated: 0,
+    depositsRestored: 0,
+    duplicatesSkipped: 0,
+  };
+
+  // Categories are matched by name so restoring twice doesn't duplicate them
+  const { data: currentCategories, error: categoriesError } = await supabase
+    .from('categories')
+    .select('id, name')
+    .eq('user_id', userId);
+
+  if (categoriesError) throw categoriesError;
+
+  const categoryIds = new Map<string, string>();
+  const categoriesByName = new Map(currentCategories.map(c => [c.name.trim().toLowerCase(), c.id]));
+
+  for (const category of data.categories) {
+    const existingId = categoriesByName.get(category.name.trim().toLowerCase());
+    if (existingId) {
+      categoryIds.set(category.id, existingId);
+      summary.categoriesMatched++;
+      continue;
+    }
+
+    const { data: created, error } = await supabase
+      .from('categories')
+      .insert({
+        user_id: userId,
+        name: category.name,
+        color: category.color,
+        icon: category.icon,
+        budget: category.budget,
+        budget_period: category.budget_period,
+        budget_start_day: category.budget_start_day,
+        rollover_from: category.rollover_from,
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    categoryIds.set(category.id, created.id);
+    categoriesByName.set(category.name.trim().toLowerCase(), created.id);
+    summary.categoriesCreated++;
+  }
+
+  const remapCategory = (id: string | null) => (id ? categoryIds.get(id) ?? null : null);
+
+  // Months already planned in this account keep their amount
+  for (const rows of chunk(data.category_budgets)) {
+    const { data: restored, error } = await supabase
+      .from('category_budgets')
+      .upsert(rows.map(budget => ({
+        user_id: userId,
+        category_id: remapCategory(budget.category_id)!,
+        month: budget.month,
+        amount: budget.amount,
+      })), { onConflict: 'category_id,month', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) throw error;
+    summary.budgetsRestored += restored.length;
+  }
+
+  // Rules are matched by name, and restored ones go after the rules already there
+  const { data: currentRules, error: rulesError } = await supabase
+    .from('category_rules')
+    .select('name, position')
+    .eq('user_id', userId);
+
+  if (rulesError) throw rulesError;
+
+  const ruleNames = new Set(currentRules.map(r => r.name.trim().toLowerCase()));
+  const firstPosition = currentRules.reduce((max, r) => Math.max(max, r.position), -1) + 1;
+  const newRules = data.category_rules
+    .filter(rule => !ruleNames.has(rule.name.trim().toLowerCase()))
+    .sort((a, b) => a.position - b.position);
+
+  if (newRules.length > 0) {
+    const { error } = await supabase.from('category_rules').insert(newRules.map((rule, index) => ({
+      user_id: userId,
+      category_id: remapCategory(rule.category_id)!,
+      name: rule.name,
+      match_type: rule.match_type,
+      pattern: rule.pattern,
+      min_amount: rule.min_amount,
+      max_amount: rule.max_amount,
+      weekdays: rule.weekdays,
+      position: firstPosition + index,
+      is_active: rule.is_active,
+    })));
+
+    if (error) throw error;
+    summary.rulesCreated = newRules.length;
+  }
+
+  // Accounts are matched by name as well
+  const { data: currentAccounts, error: accountsError } = await supabase
+    .from('accounts')
+    .select('id, name')
+    .eq('user_id', userId);
+
+  if (accountsError) throw accountsError;
+
+  const accountIds = new Map<string, string>();
+  const accountsByName = new Map(currentAccounts.map(a => [a.name.trim().toLowerCase(), a.id]));
+
+  for (const account of data.accounts) {
+    const existingId = accountsByName.get(account.name.trim().toLowerCase());
+    if (existingId) {
+      accountIds.set(account.id, existingId);
+      summary.accountsMatched++;
+      continue;
+    }
+
+    const { data: created, error } = await supabase
+      .from('accounts')
+      .insert({
+        user_id: userId,
+        name: account.name,
+        type: account.type,
+        color: account.color,
+        opening_balance: account.opening_balance,
+        opening_date: account.opening_date,
+        is_archived: account.is_archived,
+        closing_day: account.closing_day ?? null,
+        due_day: account.due_day ?? null,
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    accountIds.set(account.id, created.id);
+    accountsByName.set(account.name.trim().toLowerCase(), created.id);
+    summary.accountsCreated++;
+  }
+
+  const remapAccount = (id: string | null | undefined) => (id ? accountIds.get(id) ?? null : null);
+
+  // Recurring expenses are matched by id, or by what they charge and from when.
+  // They keep the last generated date, so occurrences in the backup aren't generated again.
+  const existingRecurring = await fetchExistingIds('recurring_expenses', userId, data.recurring_expenses.map(r => r.id));
+  const recurringIds = new Map([...existingRecurring.keys()].map(id => [id, id]));
+  const { data: currentRecurring, error: recurringError } = await supabase
+    .from('recurring_expenses')
+    .select('id, description, amount, frequency, start_date')
+    .eq('user_id', userId);
+
+  if (recurringError) throw recurringError;
+
+  const recurringKey = (description: string, amount: number, frequency: string, startDate: string) =>
+    [normalizeText(description), Math.round(Number(amount) * 100), frequency, startDate].join('|');
+  const recurringMatches = groupByContent(
+    currentRecurring.filter(r => !existingRecurring.has(r.id)),
+    r => recurringKey(r.description, r.amount, r.frequency, r.start_date)
+  );
+
+  for (const recurring of data.recurring_expenses) {
+    if (existingRecurring.has(recurring.id)) continue;
+
+    const match = takeMatch(recurringMatches, recurringKey(
+      recurring.description,
+      recurring.amount,
+      recurring.frequency,
+      recurring.start_date
+    ));
+    if (match) {
+      recurringIds.set(recurring.id, match);
+      summary.duplicatesSkipped++;
+      continue;
+    }
+
+    const { data: created, error } = await supabase
+      .from('recurring_expenses')
+      .insert({
+        user_id: userId,
+        category_id: remapCategory(recurring.category_id),
+        account_id: remapAccount(recurring.account_id),
+        amount: recurring.amount,
+        description: recurring.description,
+        frequency: recurring.frequency,
+        interval_days: recurring.interval_days,
+        day_of_month: recurring.day_of_month,
+        start_date: recurring.start_date,
+        end_date: recurring.end_date,
+        requires_confirmation: recurring.requires_confirmation,
+        is_active: recurring.is_active,
+        last_generated_date: recurring.last_generated_date,
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    recurringIds.set(recurring.id, created.id);
+    summary.recurringCreated++;
+  }
+
+  const remapRecurring = (id: string | null | undefined) => (id ? recurringIds.get(id) ?? null : null);
+
+  // Installment purchases are matched by id, or by what was bought, when and in how many installments
+  const existingPurchases = await fetchExistingIds(
+    'installment_purchases',
+    userId,
+    data.installment_purchases.map(p => p.id)
+  );
+  const purchaseIds = new Map([...existingPurchases.keys()].map(id => [id, id]));
+  const { data: currentPurchases, error: purchasesError } = await supabase
+    .from('installment_purchases')
+    .select('id, description, total_amount, installment_count, purchase_date')
+    .eq('user_id', userId);
+
+  if (purchasesError) throw purchasesError;
+
+  const purchaseKey = (description: string | null, total: number, count: number, purchaseDate: string) =>
+    [normalizeText(description ?? ''), Math.round(Number(total) * 100), count, purchaseDate].join('|');
+  const purchaseMatches = groupByContent(
+    currentPurchases.filter(p => !existingPurchases.has(p.id)),
+    p => purchaseKey(p.description, p.total_amount, p.installment_count, p.purchase_date)
+  );
+
+  for (const purchase of data.installment_purchases) {
+    if (existingPurchases.has(purchase.id)) continue;
+
+    const match = takeMatch(purchaseMatches, purchaseKey(
+      purchase.description,
+      purchase.total_amount,
+      purchase.installment_count,
+      purchase.purchase_date
+    ));
+    if (match) {
+      purchaseIds.set(purchase.id, match);
+      summary.duplicatesSkipped++;
+      continue;
+    }
+
+    const { data: created, error } = await supabase
+      .from('installment_purchases')
+      .insert({
+        user_id: userId,
+        account_id: remapAccount(purchase.account_id),
+        category_id: remapCategory(purchase.category_id),
+        description: purchase.description,
+        total_amount: purchase.total_amount,
+        installment_count: purchase.installment_count,
+        purchase_date: purchase.purchase_date,
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    purchaseIds.set(purchase.id, created.id);
+    summary.installmentPurchasesCreated++;
+  }
+
+  const remapPurchase = (id: string | null | undefined) => (id ? purchaseIds.get(id) ?? null : null);
+
+  // Expenses
+  const existingExpenses = await fetchExistingIds('expenses', userId, data.expenses.map(e => e.id));
+  const expenseRange = dateRange(data.expenses.map(e => e.expense_date));
+  const currentExpenses = expenseRange
+    ? await fetchAllPages((from, to) => supabase
+        .from('expenses')
+        .select('id, expense_date, amount, description, account_id, recurring_expense_id, installment_purchase_id, installment_number')
+        .eq('user_id', userId)
+        .gte('expense_date', expenseRange[0])
+        .lte('expense_date', expenseRange[1])
+        .order('id')
+        .range(from, to))
+    : [];
+  const expenseMatches = groupByContent(
+    currentExpenses.filter(e => !existingExpenses.has(e.id)),
+    e => contentKey(e.expense_date, e.amount, e.description, [e.account_id])
+  );
+  // A recurring expense is generated once per date, whatever its amount ended up being
+  const occurrences = new Set(currentExpenses
+    .filter(e => e.recurring_expense_id)
+    .map(e => `${e.recurring_expense_id}|${e.expense_date}`));
+  // Likewise each installment of a purchase
+  const installments = new Set(currentExpenses
+    .filter(e => e.installment_purchase_id)
+    .map(e => `${e.installment_purchase_id}|${e.installment_number}`));
+  const newExpenses = data.expenses.filter(e => {
+    if (existingExpenses.has(e.id)) return false;
+    const recurringId = remapRecurring(e.recurring_expense_id);
+    const purchaseId = remapPurchase(e.installment_purchase_id);
+    if (
+      (recurringId && occurrences.has(`${recurringId}|${e.expense_date}`)) ||
+      (purchaseId && installments.has(`${purchaseId}|${e.installment_number}`)) ||
+      takeMatch(expenseMatches, contentKey(e.expense_date, e.amount, e.description, [remapAccount(e.account_id)]))
+    ) {
+      summary.duplicatesSkipped++;
+      return false;
+    }
+    return true;
+  });
+
+  for (const expense of data.expenses) {
+    const current = existingExpenses.get(expense.id);
+    const categoryId = remapCategory(expense.category_id);
+    if (current && !current.category_id && categoryId) {
+      const { error } = await supabase
+        .from('expenses')
+        .update({ category_id: categoryId })
+        .eq('id', expense.id);
+
+      if (error) throw error;
+      summary.expensesRelinked++;
+    }
+  }
+
+  for (const rows of chunk(newExpenses)) {
+    const { data: created, error } = await supabase.from('expenses').upsert(rows.map(e => ({
+      user_id: userId,
+      category_id: remapCategory(e.category_id),
+      account_id: remapAccount(e.account_id),
+      amount: e.amount,
+      description: e.description,
+      expense_date: e.expense_date,
+      external_id: e.external_id ?? null,
+      external_account: e.external_account ?? null,
+      tags: e.tags ?? [],
+      recurring_expense_id: remapRecurring(e.recurring_expense_id),
+      is_pending: e.is_pending ?? false,
+      installment_purchase_id: remapPurchase(e.installment_purchase_id),
+      installment_number: e.installment_number ?? null,
+    })), { onConflict: EXTERNAL_CONFLICT_COLUMNS, ignoreDuplicates: true }).select('id');
+
+    if (error) throw error;
+    // Statement rows already imported are ignored and don't come back
+    summary.expensesCreated += created.length;
+  }
+
+  // Payments
+  const existingPayments = await fetchExistingIds('payments', userId, data.payments.map(p => p.id));
+  const paymentRange = dateRange(data.payments.map(p => p.payment_date));
+  const currentPayments = paymentRange
+    ? await fetchAllPages((from, to) => supabase
+        .from('payments')
+        .select('id, payment_date, amount, description, account_id')
+        .eq('user_id', userId)
+        .gte('payment_date', paymentRange[0])
+        .lte('payment_date', paymentRange[1])
+        .order('id')
+        .range(from, to))
+    : [];
+  const paymentMatches = groupByContent(
+    currentPayments.filter(p => !existingPayments.has(p.id)),
+    p => contentKey(p.payment_date, p.amount, p.description, [p.account_id])
+  );
+  const newPayments = data.payments.filter(p => {
+    if (existingPayments.has(p.id)) return false;
+    if (takeMatch(paymentMatches, contentKey(p.payment_date, p.amount, p.description, [remapAccount(p.account_id)]))) {
+      summary.duplicatesSkipped++;
+      return false;
+    }
+    return true;
+  });
+
+  for (const rows of chunk(newPayments)) {
+    const { data: created, error } = await supabase.from('payments').upsert(rows.map(p => ({
+      user_id: userId,
+      amount: p.amount,
+      payment_date: p.payment_date,
+      source: p.source ?? null,
+      description: p.description ?? null,
+      category: p.category,
+      account_id: remapAccount(p.account_id),
+      external_id: p.external_id ?? null,
+      external_account: p.external_account ?? null,
+    })), { onConflict: EXTERNAL_CONFLICT_COLUMNS, ignoreDuplicates: true }).select('id');
+
+    if (error) throw error;
+    summary.paymentsCreated += created.length;
+  }
+
+  // Transfers
+  const existingTransfers = await fetchExistingIds('transfers', userId, data.transfers.map(t => t.id));
+  // Re-created or matched transfers have other ids; deposits that point at them are relinked below
+  const transferIds = new Map([...existingTransfers.keys()].map(id => [id, id]));
+  const transferRange = dateRange(data.transfers.map(t => t.transfer_date));
+  const currentTransfers = transferRange
+    ? await fetchAllPages((from, to) => supabase
+        .from('transfers')
+        .select('id, transfer_date, amount, description, from_account_id, to_account_id')
+        .eq('user_id', userId)
+        .gte('transfer_date', transferRange[0])
+        .lte('transfer_date', transferRange[1])
+        .order('id')
+        .range(from, to))
+    : [];
+  const transferMatches = groupByContent(
+    currentTransfers.filter(t => !existingTransfers.has(t.id)),
+    t => contentKey(t.transfer_date, t.amount, t.description, [t.from_account_id, t.to_account_id])
+  );
+  const newTransfers = data.transfers.filter(t => {
+    if (existingTransfers.has(t.id)) return false;
+    const match = takeMatch(transferMatches, contentKey(
+      t.transfer_date,
+      t.amount,
+      t.description,
+      [remapAccount(t.from_account_id), remapAccount(t.to_account_id)]
+    ));
+    if (match) {
+      transferIds.set(t.id, match);
+      summary.duplicatesSkipped++;
+      return false;
+    }
+    return true;
+  });
+
+  for (const rows of chunk(newTransfers)) {
+    const { data: created, error } = await supabase.from('transfers').insert(rows.map(t => ({
+      user_id: userId,
+      from_account_id: accountIds.get(t.from_account_id)!,
+      to_account_id: accountIds.get(t.to_account_id)!,
+      amount: t.amount,
+      description: t.description,
+      transfer_date: t.transfer_date,
+    }))).select('id');
+
+    if (error) throw error;
+    rows.forEach((t, index) => transferIds.set(t.id, created[index].id));
+    summary.transfersCreated += rows.length;
+  }
+
+  const remapTransfer = (id: string | null | undefined) => (id ? transferIds.get(id) ?? null : null);
+
+  // Challenges keep their deposit statuses when they still exist (by id, or by
+  // name, start and target after an earlier restore), otherwise they are
+  // re-created with the deposit plan from the backup
+  const existingChallenges = await fetchExistingIds('challenge_40k', userId, data.challenges.map(c => c.id));
+  const { data: currentChallenges, error: challengesError } = await supabase
+    .from('challenge_40k')
+    .select('id, name, start_date, target_value')
+    .eq('user_id', userId);
+
+  if (challengesError) throw challengesError;
+
+  const challengeKey = (name: string | undefined, startDate: string | undefined, target: number) =>
+    [normalizeText(name ?? ''), startDate ?? '', Number(target)].join('|');
+  const challengeMatches = groupByContent(
+    currentChallenges.filter(c => !existingChallenges.has(c.id)),
+    c => challengeKey(c.name, c.start_date, c.target_value)
+  );
+
+  for (const challenge of data.challenges) {
+    const deposits = data.challenge_deposits.filter(d => d.challenge_id === challenge.id);
+    const matchedId = existingChallenges.has(challenge.id)
+      ? challenge.id
+      : takeMatch(challengeMatches, challengeKey(challenge.name, challenge.start_date, challenge.target_value));
+
+    // Deposits already marked in this account are kept; only pending ones take
+    // the status from the backup
+    if (matchedId) {
+      if (matchedId !== challenge.id) summary.duplicatesSkipped++;
+      for (const deposit of deposits.filter(d => d.status !== 'pending')) {
+        const { data: restored, error } = await supabase
+          .from('challenge_deposits')
+          .update({
+            status: deposit.status,
+            completed_at: deposit.completed_at,
+            transfer_id: remapTransfer(deposit.transfer_id),
+          })
+          .eq('challenge_id', matchedId)
+          .eq('sequence_order', deposit.sequence_order)
+          .eq('status', 'pending')
+          .select('id');
+
+        if (error) throw error;
+        summary.depositsRestored += restored.length;
+      }
+      continue;
+    }
+
+    const { data: created, error } = await supabase
+      .from('challenge_40k')
+      .insert({
+        user_id: userId,
+        name: challenge.name,
+        start_date: challenge.start_date,
+        deadline: challenge.deadline ?? null,
+        from_account_id: remapAccount(challenge.from_account_id),
+        to_account_id: remapAccount(challenge.to_account_id),
+        target_value: challenge.target_value,
+        is_active: challenge.is_active,
+        template: challenge.template,
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    summary.challengesCreated++;
+
+    for (const rows of chunk(deposits)) {
+      const { error: depositsError } = await supabase.from('challenge_deposits').insert(rows.map(d => ({
+        challenge_id: created.id,
+        deposit_value: d.deposit_value,
+        sequence_order: d.sequence_order,
+        status: d.status,
+        completed_at: d.completed_at,
+        transfer_id: remapTransfer(d.transfer_id),
+      })));
+
+      if (depositsError) throw depositsError;
+      summary.depositsRestored += rows.length;
+    }
+  }
+
+  return summary;
+}
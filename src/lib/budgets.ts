@@ -0,0 +1,220 @@
+import { addDays, addMonths, format, getDaysInMonth, parseISO, setDate, startOfMonth, startOfWeek } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toISODate, toMonthKey } from '@/lib/dates';
+import { fetchAllPages } from '@/lib/paging';
+
+export type BudgetPeriod = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  weekly: 'Semanal',
+  monthly: 'Mensal',
+  quarterly: 'Trimestral',
+  yearly: 'Anual',
+};
+
+export type CategoryBudget = Tables<'category_budgets'>;
+
+export type BudgetHistory = Pick<CategoryBudget, 'month' | 'amount'>[];
+
+export type BudgetConfig = Pick<
+  Tables<'categories'>,
+  'budget' | 'budget_period' | 'budget_start_day' | 'rollover_from'
+>;
+
+export type BudgetCategory = Pick<Tables<'categories'>, 'id' | 'name' | 'color'> & BudgetConfig;
+
+export interface BudgetWindow {
+  start: string;
+  end: string;
+}
+
+export interface BudgetStatus extends BudgetWindow {
+  budget: number;
+  // Left over (positive) or overspent (negative) in the previous periods
+  carry: number;
+  available: number;
+  spent: number;
+  remaining: number;
+  percent: number;
+}
+
+interface DatedAmount {
+  amount: number;
+  expense_date: string;
+}
+
+export interface CategoryExpense extends DatedAmount {
+  category_id: string | null;
+}
+
+const PERIOD_MONTHS: Record<Exclude<BudgetPeriod, 'weekly'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+// Months without the chosen day (e.g. 31) start on their last day
+function periodStart(month: Date, day: number): Date {
+  return setDate(startOfMonth(month), Math.min(day, getDaysInMonth(month)));
+}
+
+// The budget period that contains a yyyy-MM-dd date. Weeks start on Sunday;
+// quarters and years are aligned to January, shifted to the start day.
+export function getBudgetWindow(config: Pick<BudgetConfig, 'budget_period' | 'budget_start_day'>, date: string): BudgetWindow {
+  const day = parseISO(date);
+
+  if (config.budget_period === 'weekly') {
+    const start = startOfWeek(day);
+    return { start: toISODate(start), end: toISODate(addDays(start, 6)) };
+  }
+
+  const months = PERIOD_MONTHS[config.budget_period as keyof typeof PERIOD_MONTHS] ?? 1;
+  let anchor = startOfMonth(day);
+  anchor = addMonths(anchor, -(anchor.getMonth() % months));
+  if (periodStart(anchor, config.budget_start_day) > day) {
+    anchor = addMonths(anchor, -months);
+  }
+
+  const next = periodStart(addMonths(anchor, months), config.budget_start_day);
+  return {
+    start: toISODate(periodStart(anchor, config.budget_start_day)),
+    end: toISODate(addDays(next, -1)),
+  };
+}
+
+export function getNextBudgetWindow(config: BudgetConfig, window: BudgetWindow): BudgetWindow {
+  return getBudgetWindow(config, toISODate(addDays(parseISO(window.end), 1)));
+}
+
+// The first expense date needed to work out the status at the reference date
+export function getBudgetHistoryStart(config: BudgetConfig, reference: string): string {
+  const current = getBudgetWindow(config, reference);
+  if (!config.rollover_from) return current.start;
+
+  const first = getBudgetWindow(config, config.rollover_from);
+  return first.start < current.start ? first.start : current.start;
+}
+
+function sumWindow(expenses: DatedAmount[], window: BudgetWindow) {
+  return expenses
+    .filter(e => e.expense_date >= window.start && e.expense_date <= window.end)
+    .reduce((sum, e) => sum + Number(e.amount), 0);
+}
+
+// The budget planned for a yyyy-MM month: the latest history entry up to that
+// month. Months before the first entry had no budget; only a category without
+// any history falls back to its current budget.
+export function getBudgetForMonth(config: Pick<BudgetConfig, 'budget'>, history: BudgetHistory, month: string): number {
+  if (history.length === 0) return Number(config.budget);
+
+  const latest = history
+    .filter(entry => toMonthKey(entry.month) <= month)
+    .reduce<BudgetHistory[number] | null>((found, entry) => (!found || entry.month > found.month ? entry : found), null);
+  return latest ? Number(latest.amount) : 0;
+}
+
+// Spending against the budget in the period containing the reference date.
+// Expenses must belong to the category and go back to getBudgetHistoryStart;
+// each period uses the budget planned for the month it starts in.
+export function getBudgetStatus(
+  config: BudgetConfig,
+  expenses: DatedAmount[],
+  reference: string,
+  history: BudgetHistory = []
+): BudgetStatus {
+  const current = getBudgetWindow(config, reference);
+  const budgetFor = (window: BudgetWindow) => getBudgetForMonth(config, history, toMonthKey(window.start));
+  const budget = budgetFor(current);
+
+  let carry = 0;
+  if (config.rollover_from) {
+    for (
+      let window = getBudgetWindow(config, config.rollover_from);
+      window.start < current.start;
+      window = getNextBudgetWindow(config, window)
+    ) {
+      carry += budgetFor(window) - sumWindow(expenses, window);
+    }
+  }
+
+  const spent = sumWindow(expenses, current);
+  const available = budget + carry;
+  let percent = 0;
+  if (available > 0) percent = (spent / available) * 100;
+  else if (budget > 0) percent = 100;
+
+  return { ...current, budget, carry, available, spent, remaining: available - spent, percent };
+}
+
+export function formatBudgetWindow(window: BudgetWindow): string {
+  return `${format(parseISO(window.start), 'dd/MM')} – ${format(parseISO(window.end), 'dd/MM')}`;
+}
+
+export async function fetchBudgetHistory(userId: string): Promise<CategoryBudget[]> {
+  return fetchAllPages((from, to) =>
+    supabase
+      .from('category_budgets')
+      .select('*')
+      .eq('user_id', userId)
+      .order('month')
+      .order('id')
+      .range(from, to)
+  );
+}
+
+// The expenses of the categories between two yyyy-MM-dd dates, all of them
+// even when a rollover reaches back past the 1000 rows a request returns
+export async function fetchCategoryExpenses(
+  userId: string,
+  categoryIds: string[],
+  from: string,
+  to: string
+): Promise<CategoryExpense[]> {
+  if (categoryIds.length === 0) return [];
+
+  return fetchAllPages((start, end) =>
+    supabase
+      .from('expenses')
+      .select('category_id, amount, expense_date')
+      .eq('user_id', userId)
+      .in('category_id', categoryIds)
+      .gte('expense_date', from)
+      .lte('expense_date', to)
+      .order('expense_date')
+      .order('id')
+      .range(start, end)
+  );
+}
+
+// Sets the budgets of a yyyy-MM month, replacing what was planned for it
+export async function saveMonthlyBudgets(
+  userId: string,
+  month: string,
+  budgets: { category_id: string; amount: number }[]
+) {
+  if (budgets.length === 0) return;
+
+  const { error } = await supabase
+    .from('category_budgets')
+    .upsert(
+      budgets.map(budget => ({ user_id: userId, month: `${month}-01`, ...budget })),
+      { onConflict: 'category_id,month' }
+    );
+
+  if (error) throw error;
+}
+
+// Removes what was planned for a yyyy-MM month so it inherits the month before
+export async function clearMonthlyBudgets(userId: string, month: string, categoryIds: string[]) {
+  if (categoryIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('category_budgets')
+    .delete()
+    .eq('user_id', userId)
+    .eq('month', `${month}-01`)
+    .in('category_id', categoryIds);
+
+  if (error) throw error;
+}
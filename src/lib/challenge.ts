@@ -0,0 +1,574 @@
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toISODate } from '@/lib/dates';
+import { fetchAllPages } from '@/lib/paging';
+
+export type ChallengeTemplate = 'ladder' | 'reverse_ladder' | 'weeks52' | 'fixed' | 'envelopes' | 'split';
+
+export interface GeneratorOptions {
+  target: number;
+  count: number;
+  amount: number;
+}
+
+interface TemplateInfo {
+  label: string;
+  description: string;
+  // Which options the template reads; the others are ignored
+  fields: (keyof GeneratorOptions)[];
+  defaults: GeneratorOptions;
+}
+
+export const CHALLENGE_TEMPLATES: Record<ChallengeTemplate, TemplateInfo> = {
+  ladder: {
+    label: 'Escada 1 → N → 1',
+    description: 'Depósitos crescentes e depois decrescentes, como o clássico 40K',
+    fields: ['target'],
+    defaults: { target: 40000, count: 0, amount: 0 },
+  },
+  reverse_ladder: {
+    label: 'Escada decrescente',
+    description: 'Começa pelos maiores depósitos, enquanto a motivação está alta',
+    fields: ['target'],
+    defaults: { target: 20000, count: 0, amount: 0 },
+  },
+  weeks52: {
+    label: '52 semanas',
+    description: 'Um depósito por semana, aumentando um pouco a cada semana',
+    fields: ['target'],
+    defaults: { target: 13780, count: 0, amount: 0 },
+  },
+  fixed: {
+    label: 'Valor fixo semanal',
+    description: 'O mesmo valor toda semana',
+    fields: ['amount', 'count'],
+    defaults: { target: 0, count: 52, amount: 100 },
+  },
+  envelopes: {
+    label: '100 envelopes',
+    description: 'Envelopes numerados em ordem aleatória',
+    fields: ['target', 'count'],
+    defaults: { target: 5050, count: 100, amount: 0 },
+  },
+  split: {
+    label: 'Meta personalizada',
+    description: 'Divide a meta em depósitos iguais',
+    fields: ['target', 'count'],
+    defaults: { target: 10000, count: 12, amount: 0 },
+  },
+};
+
+export const MAX_DEPOSITS = 1000;
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+// Smallest peak whose 1..peak..1 ladder reaches the target
+function ladderPeak(target: number, bothSides: boolean): number {
+  // 1..p..1 sums to p(p + 1); a single 1..p side to half of that
+  const pairSum = bothSides ? target : target * 2;
+  return Math.max(1, Math.ceil((Math.sqrt(1 + 4 * pairSum) - 1) / 2));
+}
+
+function shuffle(values: number[], random: () => number): number[] {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Adjusts whole-real deposits so they add up exactly to the target. When the
+// sequence overshoots by the value of one of its deposits, that deposit is
+// dropped (this keeps the classic 40K ladder intact); otherwise the values are
+// scaled proportionally and the rounding difference is spread one real at a time.
+export function fitToTarget(values: number[], target: number): number[] {
+  const total = sum(values);
+  if (total === target) return values;
+
+  const excessIndex = values.indexOf(total - target);
+  if (excessIndex !== -1) {
+    return values.filter((_, i) => i !== excessIndex);
+  }
+
+  const scaled = values.map(v => (v * target) / total);
+  const result = scaled.map(v => Math.max(1, Math.floor(v)));
+  let diff = target - sum(result);
+
+  const byRemainder = scaled
+    .map((v, i) => ({ i, remainder: v - Math.floor(v) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let k = 0; diff > 0; k = (k + 1) % result.length, diff--) {
+    result[byRemainder[k].i]++;
+  }
+
+  // Stops once a full pass finds every deposit at R$ 1, which only happens
+  // when the target is below the number of deposits (validateOptions rejects it)
+  const byValue = result.map((v, i) => ({ i, v })).sort((a, b) => b.v - a.v);
+  for (let k = 0, unchanged = 0; diff < 0 && unchanged < result.length; k = (k + 1) % result.length) {
+    const { i } = byValue[k];
+    if (result[i] > 1) {
+      result[i]--;
+      diff++;
+      unchanged = 0;
+    } else {
+      unchanged++;
+    }
+  }
+
+  return result;
+}
+
+// How many deposits the template plans for the target, before fitting
+function getDepositCount(template: ChallengeTemplate, options: GeneratorOptions, target: number): number {
+  switch (template) {
+    case 'ladder':
+      return ladderPeak(target, true) * 2;
+    case 'reverse_ladder':
+      return ladderPeak(target, false);
+    case 'weeks52':
+      return 52;
+    default:
+      return options.count;
+  }
+}
+
+export function getGeneratorTarget(template: ChallengeTemplate, options: GeneratorOptions): number {
+  return template === 'fixed' ? options.amount * options.count : options.target;
+}
+
+// Returns an error message when the options can't produce a valid plan
+export function validateOptions(template: ChallengeTemplate, options: GeneratorOptions): string | null {
+  const { fields } = CHALLENGE_TEMPLATES[template];
+  const target = getGeneratorTarget(template, options);
+
+  if (fields.includes('count') && (!Number.isInteger(options.count) || options.count < 1)) {
+    return 'Informe a quantidade de depósitos';
+  }
+  if (fields.includes('count') && options.count > MAX_DEPOSITS) {
+    return `Use no máximo ${MAX_DEPOSITS} depósitos`;
+  }
+  if (fields.includes('amount') && (!Number.isInteger(options.amount) || options.amount < 1)) {
+    return 'Informe um valor inteiro por depósito';
+  }
+  if (!Number.isInteger(target) || target < 1) {
+    return 'Informe uma meta em reais inteiros';
+  }
+  const count = getDepositCount(template, options, target);
+  if (target < count) {
+    return `A meta precisa ser de pelo menos R$ 1 por depósito (${count} depósitos)`;
+  }
+  if (count > MAX_DEPOSITS) {
+    return 'Meta grande demais para este modelo';
+  }
+  return null;
+}
+
+// Builds the deposit plan; every template sums exactly to its target
+export function generateDeposits(
+  template: ChallengeTemplate,
+  options: GeneratorOptions,
+  random: () => number = Math.random
+): number[] {
+  const target = getGeneratorTarget(template, options);
+
+  switch (template) {
+    case 'ladder': {
+      const peak = ladderPeak(target, true);
+      const up = Array.from({ length: peak }, (_, i) => i + 1);
+      return fitToTarget([...up, ...[...up].reverse()], target);
+    }
+    case 'reverse_ladder': {
+      const peak = ladderPeak(target, false);
+      return fitToTarget(Array.from({ length: peak }, (_, i) => peak - i), target);
+    }
+    case 'weeks52':
+      return fitToTarget(Array.from({ length: 52 }, (_, i) => i + 1), target);
+    case 'envelopes':
+      return shuffle(fitToTarget(Array.from({ length: options.count }, (_, i) => i + 1), target), random);
+    case 'fixed':
+    case 'split':
+      return fitToTarget(Array(options.count).fill(1), target);
+  }
+}
+
+export interface ChallengePlan {
+  name: string;
+  startDate: string;
+  deadline: string | null;
+  fromAccountId: string | null;
+  toAccountId: string | null;
+  template: ChallengeTemplate;
+  target: number;
+  deposits: number[];
+}
+
+export async function createChallenge(userId: string, plan: ChallengePlan): Promise<string> {
+  const { data: challenge, error } = await supabase
+    .from('challenge_40k')
+    .insert({
+      user_id: userId,
+      name: plan.name,
+      start_date: plan.startDate,
+      deadline: plan.deadline,
+      from_account_id: plan.fromAccountId,
+      to_account_id: plan.toAccountId,
+      target_value: plan.target,
+      template: plan.template,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  const { error: depositsError } = await supabase
+    .from('challenge_deposits')
+    .insert(plan.deposits.map((value, index) => ({
+      challenge_id: challenge.id,
+      deposit_value: value,
+      sequence_order: index + 1,
+      status: 'pending' as const,
+    })));
+
+  if (depositsError) {
+    // Don't leave a challenge without its deposit plan behind
+    await supabase.from('challenge_40k').delete().eq('id', challenge.id);
+    throw depositsError;
+  }
+
+  return challenge.id;
+}
+
+export type DepositStatus = 'pending' | 'completed' | 'skipped';
+
+export const DEPOSIT_STATUS_LABELS: Record<DepositStatus, string> = {
+  pending: 'Pendente',
+  completed: 'Concluído',
+  skipped: 'Pulado',
+};
+
+export type CompletedDeposit = Pick<Tables<'challenge_deposits'>, 'challenge_id' | 'deposit_value' | 'status' | 'completed_at'>;
+
+// The completed deposits of the challenges, page by page since a few ladders
+// alone go past the 1000 rows a request returns
+export async function fetchCompletedDeposits(challengeIds: string[]): Promise<CompletedDeposit[]> {
+  if (challengeIds.length === 0) return [];
+
+  return fetchAllPages((from, to) =>
+    supabase
+      .from('challenge_deposits')
+      .select('id, challenge_id, deposit_value, status, completed_at')
+      .in('challenge_id', challengeIds)
+      .eq('status', 'completed')
+      .order('id')
+      .range(from, to)
+  );
+}
+
+type DepositChallenge = Pick<Tables<'challenge_40k'>, 'user_id' | 'name' | 'from_account_id' | 'to_account_id'>;
+type LinkedDeposit = Pick<
+  Tables<'challenge_deposits'>,
+  'id' | 'deposit_value' | 'sequence_order' | 'status' | 'completed_at' | 'transfer_id'
+>;
+
+export interface DepositUpdate {
+  status: DepositStatus;
+  completed_at: string | null;
+  transfer_id: string | null;
+}
+
+export interface DepositStatusOptions {
+  // When the deposit was completed; undo passes the original time back
+  completedAt?: Date;
+  isUndo?: boolean;
+}
+
+// Every status change is appended to challenge_deposit_events. The change has
+// already been saved at this point, so a failure here is only logged.
+async function logDepositEvents(
+  userId: string,
+  changes: { deposit: LinkedDeposit; status: DepositStatus }[],
+  isUndo: boolean
+) {
+  const { error } = await supabase
+    .from('challenge_deposit_events')
+    .insert(changes.map(({ deposit, status }) => ({
+      user_id: userId,
+      deposit_id: deposit.id,
+      from_status: deposit.status,
+      to_status: status,
+      is_undo: isUndo,
+    })));
+
+  if (error) console.error('Error logging deposit events:', error);
+}
+
+// Changes a deposit's status keeping the money movement in sync: completing it
+// records a transfer between the challenge's accounts (when both are set) and
+// moving it back to pending or skipped removes that transfer again.
+//
+// The deposit is claimed first, only if it still has the status and transfer
+// the caller saw, so a repeated click on a stale copy fails instead of moving
+// the money twice.
+export async function setDepositStatus(
+  challenge: DepositChallenge,
+  deposit: LinkedDeposit,
+  status: DepositStatus,
+  options: DepositStatusOptions = {}
+): Promise<DepositUpdate> {
+  const now = options.completedAt ?? new Date();
+  const update: DepositUpdate = {
+    status,
+    completed_at: status === 'completed' ? now.toISOString() : null,
+    transfer_id: null,
+  };
+
+  let claim = supabase
+    .from('challenge_deposits')
+    .update(update)
+    .eq('id', deposit.id)
+    .eq('status', deposit.status);
+  claim = deposit.transfer_id ? claim.eq('transfer_id', deposit.transfer_id) : claim.is('transfer_id', null);
+
+  const { data: claimed, error: claimError } = await claim.select('id');
+  if (claimError) throw claimError;
+  if (claimed.length === 0) throw new Error('O depósito foi alterado em outro lugar');
+
+  // Puts the deposit back as it was when the money can't follow
+  const release = () => supabase
+    .from('challenge_deposits')
+    .update({ status: deposit.status, completed_at: deposit.completed_at, transfer_id: deposit.transfer_id })
+    .eq('id', deposit.id);
+
+  if (deposit.transfer_id) {
+    const { error } = await supabase
+      .from('transfers')
+      .delete()
+      .eq('id', deposit.transfer_id);
+
+    if (error) {
+      await release();
+      throw error;
+    }
+  }
+
+  if (status === 'completed' && challenge.from_account_id && challenge.to_account_id) {
+    const { data: transfer, error } = await supabase
+      .from('transfers')
+      .insert({
+        user_id: challenge.user_id,
+        from_account_id: challenge.from_account_id,
+        to_account_id: challenge.to_account_id,
+        amount: deposit.deposit_value,
+        description: `${challenge.name} • depósito ${deposit.sequence_order}`,
+        transfer_date: toISODate(now),
+      })
+      .select('id')
+      .single();
+
+    // Only reached from pending or skipped, which have no transfer to bring back
+    if (error) {
+      await release();
+      throw error;
+    }
+
+    const { error: linkError } = await supabase
+      .from('challenge_deposits')
+      .update({ transfer_id: transfer.id })
+      .eq('id', deposit.id);
+
+    if (linkError) {
+      await supabase.from('transfers').delete().eq('id', transfer.id);
+      await release();
+      throw linkError;
+    }
+    update.transfer_id = transfer.id;
+  }
+
+  await logDepositEvents(challenge.user_id, [{ deposit, status }], options.isUndo ?? false);
+  return update;
+}
+
+// Completes several pending deposits at once, with one transfer per deposit
+// when the challenge has linked accounts. Only deposits still pending are
+// claimed, so a second click or another tab can't complete one twice; the
+// result leaves out the ones that had already changed.
+export async function completeDeposits(
+  challenge: DepositChallenge,
+  deposits: LinkedDeposit[],
+  now: Date = new Date()
+): Promise<Map<string, DepositUpdate>> {
+  const completedAt = now.toISOString();
+
+  const { data: claimedRows, error: claimError } = await supabase
+    .from('challenge_deposits')
+    .update({ status: 'completed', completed_at: completedAt, transfer_id: null })
+    .in('id', deposits.map(deposit => deposit.id))
+    .eq('status', 'pending')
+    .select('id');
+
+  if (claimError) throw claimError;
+
+  const claimedIds = new Set(claimedRows.map(row => row.id));
+  const claimed = deposits.filter(deposit => claimedIds.has(deposit.id));
+  const updates = new Map<string, DepositUpdate>(claimed.map(deposit => [deposit.id, {
+    status: 'completed',
+    completed_at: completedAt,
+    transfer_id: null,
+  }]));
+  if (claimed.length === 0) return updates;
+
+  // Puts the claimed deposits back to pending when the money can't follow
+  const release = () => supabase
+    .from('challenge_deposits')
+    .update({ status: 'pending', completed_at: null, transfer_id: null })
+    .in('id', [...claimedIds]);
+
+  if (challenge.from_account_id && challenge.to_account_id) {
+    const { data: transfers, error } = await supabase
+      .from('transfers')
+      .insert(claimed.map(deposit => ({
+        user_id: challenge.user_id,
+        from_account_id: challenge.from_account_id!,
+        to_account_id: challenge.to_account_id!,
+        amount: deposit.deposit_value,
+        description: `${challenge.name} • depósito ${deposit.sequence_order}`,
+        transfer_date: toISODate(now),
+      })))
+      .select('id');
+
+    if (error) {
+      await release();
+      throw error;
+    }
+
+    for (const [index, deposit] of claimed.entries()) {
+      const { error: linkError } = await supabase
+        .from('challenge_deposits')
+        .update({ transfer_id: transfers[index].id })
+        .eq('id', deposit.id);
+
+      if (linkError) {
+        await supabase.from('transfers').delete().in('id', transfers.map(t => t.id));
+        await release();
+        throw linkError;
+      }
+      updates.get(deposit.id)!.transfer_id = transfers[index].id;
+    }
+  }
+
+  await logDepositEvents(challenge.user_id, claimed.map(deposit => ({ deposit, status: 'completed' })), false);
+  return updates;
+}
+
+// Picks the deposits whose values add up to the budget, or as close to it as
+// possible without going over (0/1 subset sum over whole reais). Earlier
+// deposits in the list are preferred when several combinations fit.
+export function suggestDeposits<T extends { deposit_value: number }>(deposits: T[], budget: number): T[] {
+  const total = sum(deposits.map(d => d.deposit_value));
+  const limit = Math.min(Math.floor(budget), total);
+  if (limit <= 0) return [];
+  if (limit === total) return deposits;
+
+  // reachedBy[s] is the deposit that first completed a subset summing to s
+  const reachedBy = new Int32Array(limit + 1).fill(-1);
+  let best = 0;
+
+  deposits.forEach((deposit, index) => {
+    const value = deposit.deposit_value;
+    for (let s = limit; s >= value; s--) {
+      if (reachedBy[s] === -1 && (s === value || reachedBy[s - value] !== -1)) {
+        reachedBy[s] = index;
+        best = Math.max(best, s);
+      }
+    }
+  });
+
+  const picked: T[] = [];
+  for (let s = best; s > 0; s -= deposits[reachedBy[s]].deposit_value) {
+    picked.push(deposits[reachedBy[s]]);
+  }
+  return picked.reverse();
+}
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+export type PaceStatus = 'done' | 'on_track' | 'behind' | 'overdue' | 'no_deadline';
+
+export interface ChallengePace {
+  status: PaceStatus;
+  completed: number;
+  remaining: number;
+  // Straight-line amount that should be saved by today to finish on the deadline
+  expected: number | null;
+  daysLeft: number | null;
+  // Rate needed from today on to finish on time
+  requiredPerWeek: number | null;
+  requiredPerMonth: number | null;
+  // Average actually saved per day, from the deposits' completion dates
+  dailyRate: number;
+  projectedDate: string | null;
+}
+
+type PaceChallenge = Pick<Tables<'challenge_40k'>, 'target_value' | 'start_date' | 'deadline'>;
+type PaceDeposit = Pick<Tables<'challenge_deposits'>, 'deposit_value' | 'status' | 'completed_at'>;
+
+export function getChallengePace(
+  challenge: PaceChallenge,
+  deposits: PaceDeposit[],
+  today: Date = new Date()
+): ChallengePace {
+  const todayISO = toISODate(today);
+  const target = Number(challenge.target_value);
+  const completedDates = deposits
+    .filter(d => d.status === 'completed')
+    .map(d => ({ value: d.deposit_value, date: d.completed_at ? toISODate(new Date(d.completed_at)) : todayISO }));
+  const completed = sum(completedDates.map(d => d.value));
+  const remaining = Math.max(target - completed, 0);
+
+  // Deposits ticked before the start date still count towards the history
+  const firstDate = completedDates.reduce((first, d) => (d.date < first ? d.date : first), challenge.start_date);
+  const elapsedDays = Math.max(differenceInCalendarDays(today, parseISO(firstDate)) + 1, 1);
+  const dailyRate = completed / elapsedDays;
+
+  let projectedDate: string | null = null;
+  if (remaining === 0) {
+    projectedDate = completedDates.reduce<string | null>((last, d) => (!last || d.date > last ? d.date : last), null);
+  } else if (dailyRate > 0) {
+    projectedDate = toISODate(addDays(today, Math.ceil(remaining / dailyRate)));
+  }
+
+  const pace: ChallengePace = {
+    status: 'no_deadline',
+    completed,
+    remaining,
+    expected: null,
+    daysLeft: null,
+    requiredPerWeek: null,
+    requiredPerMonth: null,
+    dailyRate,
+    projectedDate,
+  };
+
+  if (remaining === 0) return { ...pace, status: 'done' };
+  if (!challenge.deadline) return pace;
+
+  const totalDays = Math.max(differenceInCalendarDays(parseISO(challenge.deadline), parseISO(challenge.start_date)) + 1, 1);
+  const daysSinceStart = differenceInCalendarDays(today, parseISO(challenge.start_date)) + 1;
+  const daysLeft = Math.max(differenceInCalendarDays(parseISO(challenge.deadline), today) + 1, 0);
+  const expected = target * Math.min(Math.max(daysSinceStart / totalDays, 0), 1);
+
+  let status: PaceStatus = completed >= expected ? 'on_track' : 'behind';
+  if (daysLeft === 0) status = 'overdue';
+
+  return {
+    ...pace,
+    status,
+    expected,
+    daysLeft,
+    // With less than a week (or month) left, the whole remainder is due in it
+    requiredPerWeek: daysLeft > 0 ? remaining / Math.max(daysLeft / 7, 1) : null,
+    requiredPerMonth: daysLeft > 0 ? remaining / Math.max(daysLeft / DAYS_PER_MONTH, 1) : null,
+  };
+}
@@ -0,0 +1,131 @@
+import { addDays, addWeeks, differenceInCalendarDays, format, parseISO, startOfWeek } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { getLastMonths, toISODate, toMonthKey } from '@/lib/dates';
+
+type HistoryDeposit = Pick<Tables<'challenge_deposits'>, 'deposit_value' | 'status' | 'completed_at'>;
+
+export interface DayTotal {
+  date: string;
+  count: number;
+  amount: number;
+}
+
+export interface Streaks {
+  current: number;
+  longest: number;
+}
+
+export type HistoryGrouping = 'week' | 'month';
+
+export interface PeriodTotal {
+  key: string;
+  label: string;
+  amount: number;
+}
+
+export interface CumulativePoint {
+  date: string;
+  total: number;
+}
+
+export interface HeatmapCell extends DayTotal {
+  // 0 (no deposit) to 4, relative to the busiest day on the map
+  level: number;
+}
+
+// Completed deposits grouped by the local day they were ticked. Deposits
+// completed before completed_at was recorded have no day and are left out.
+export function getDailyTotals(deposits: HistoryDeposit[]): Map<string, DayTotal> {
+  const days = new Map<string, DayTotal>();
+
+  deposits.forEach(deposit => {
+    if (deposit.status !== 'completed' || !deposit.completed_at) return;
+
+    const date = toISODate(new Date(deposit.completed_at));
+    const day = days.get(date) ?? { date, count: 0, amount: 0 };
+    day.count++;
+    day.amount += deposit.deposit_value;
+    days.set(date, day);
+  });
+
+  return days;
+}
+
+// Streaks count consecutive days with at least one deposit. A day without a
+// deposit yet doesn't break the current streak until it's over.
+export function getStreaks(days: Iterable<string>, today: Date = new Date()): Streaks {
+  const sorted = [...new Set(days)].sort();
+  let longest = 0;
+  let run = 0;
+
+  sorted.forEach((date, index) => {
+    const consecutive = index > 0 && differenceInCalendarDays(parseISO(date), parseISO(sorted[index - 1])) === 1;
+    run = consecutive ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const last = sorted[sorted.length - 1];
+  const current = last && differenceInCalendarDays(today, parseISO(last)) <= 1 ? run : 0;
+
+  return { current, longest };
+}
+
+// Totals for the last `count` weeks (starting on Sunday) or months, oldest first
+export function getPeriodTotals(
+  daily: Map<string, DayTotal>,
+  grouping: HistoryGrouping,
+  count: number,
+  today: Date = new Date()
+): PeriodTotal[] {
+  const buckets = grouping === 'month'
+    ? getLastMonths(count, today).map(m => ({ key: m.key, label: m.label }))
+    : Array.from({ length: count }, (_, index) => {
+        const start = addWeeks(startOfWeek(today), index - count + 1);
+        return { key: toISODate(start), label: format(start, 'dd/MM') };
+      });
+
+  const totals = new Map(buckets.map(b => [b.key, 0]));
+
+  daily.forEach(day => {
+    const key = grouping === 'month' ? toMonthKey(day.date) : toISODate(startOfWeek(parseISO(day.date)));
+    if (totals.has(key)) totals.set(key, totals.get(key)! + day.amount);
+  });
+
+  return buckets.map(b => ({ ...b, amount: totals.get(b.key)! }));
+}
+
+export function getCumulativeSeries(daily: Map<string, DayTotal>): CumulativePoint[] {
+  let total = 0;
+  return [...daily.values()]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(day => {
+      total += day.amount;
+      return { date: day.date, total };
+    });
+}
+
+// Columns of Sunday-to-Saturday weeks ending on the current one; days after
+// today are null so the last column can be partly empty
+export function getHeatmapWeeks(
+  daily: Map<string, DayTotal>,
+  weeks: number,
+  today: Date = new Date()
+): (HeatmapCell | null)[][] {
+  const todayISO = toISODate(today);
+  const first = addWeeks(startOfWeek(today), -(weeks - 1));
+
+  const columns = Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const date = toISODate(addDays(first, week * 7 + weekday));
+      if (date > todayISO) return null;
+      return daily.get(date) ?? { date, count: 0, amount: 0 };
+    })
+  );
+
+  const max = Math.max(0, ...columns.flat().map(day => day?.amount ?? 0));
+
+  return columns.map(column => column.map(day => day && {
+    ...day,
+    level: day.amount > 0 ? Math.max(1, Math.ceil((day.amount / max) * 4)) : 0,
+  }));
+}
@@ -0,0 +1,102 @@
+import { addMonths, format, getDaysInMonth, parseISO, setDate, startOfMonth } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toISODate, toMonthKey } from '@/lib/dates';
+
+export interface BillingCycle {
+  closing_day: number | null;
+  due_day: number | null;
+}
+
+export interface Installment {
+  number: number;
+  date: string;
+  amount: number;
+}
+
+export interface InvoiceItem {
+  id: string;
+  amount: number;
+  expense_date: string;
+  description: string | null;
+}
+
+export interface Invoice<T extends InvoiceItem = InvoiceItem> {
+  // yyyy-MM of the month the invoice closes in
+  key: string;
+  label: string;
+  closingDate: string;
+  dueDate: string;
+  total: number;
+  items: T[];
+}
+
+export const MAX_INSTALLMENTS = 48;
+
+// Days past the end of a short month fall back to its last day
+function dayOfMonth(month: Date, day: number): Date {
+  return setDate(startOfMonth(month), Math.min(day, getDaysInMonth(month)));
+}
+
+// Purchases made after the closing day are billed in the next invoice
+export function getInvoiceKey(date: string, cycle: BillingCycle): string {
+  const purchase = parseISO(date);
+  if (!cycle.closing_day) return toMonthKey(purchase);
+
+  const closing = dayOfMonth(purchase, cycle.closing_day);
+  return toMonthKey(purchase > closing ? addMonths(purchase, 1) : purchase);
+}
+
+export function getInvoiceDates(key: string, cycle: BillingCycle) {
+  const month = parseISO(`${key}-01`);
+  const closingDay = cycle.closing_day ?? getDaysInMonth(month);
+  const dueDay = cycle.due_day ?? closingDay;
+  // A due day before the closing day means the bill is paid the following month
+  const dueMonth = dueDay > closingDay ? month : addMonths(month, 1);
+
+  return {
+    closingDate: toISODate(dayOfMonth(month, closingDay)),
+    dueDate: toISODate(dayOfMonth(dueMonth, dueDay)),
+  };
+}
+
+// Splits the total in cents; the rounding difference goes to the first installment
+export function buildInstallments(purchaseDate: string, total: number, count: number): Installment[] {
+  const totalCents = Math.round(total * 100);
+  const baseCents = Math.floor(totalCents / count);
+  const start = parseISO(purchaseDate);
+
+  return Array.from({ length: count }, (_, i) => ({
+    number: i + 1,
+    date: toISODate(dayOfMonth(addMonths(start, i), start.getDate())),
+    amount: (i === 0 ? totalCents - baseCents * (count - 1) : baseCents) / 100,
+  }));
+}
+
+export function groupByInvoice<T extends InvoiceItem>(items: T[], cycle: BillingCycle): Invoice<T>[] {
+  const invoices = new Map<string, Invoice<T>>();
+
+  items.forEach(item => {
+    const key = getInvoiceKey(item.expense_date, cycle);
+    let invoice = invoices.get(key);
+    if (!invoice) {
+      const label = format(parseISO(`${key}-01`), 'MMMM yyyy', { locale: ptBR });
+      invoice = {
+        key,
+        label: label.charAt(0).toUpperCase() + label.slice(1),
+        ...getInvoiceDates(key, cycle),
+        total: 0,
+        items: [],
+      };
+      invoices.set(key, invoice);
+    }
+    invoice.total += Number(item.amount);
+    invoice.items.push(item);
+  });
+
+  return [...invoices.values()]
+    .map(invoice => ({
+      ...invoice,
+      items: invoice.items.sort((a, b) => a.expense_date.localeCompare(b.expense_date)),
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
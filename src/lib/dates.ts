@@ -0,0 +1,32 @@
+import { addMonths, format, startOfMonth } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+export interface MonthBucket {
+  key: string;
+  label: string;
+  start: Date;
+}
+
+// Formats a date as yyyy-MM-dd in local time (toISOString would shift it to UTC)
+export function toISODate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+export function toMonthKey(date: string | Date): string {
+  if (typeof date === 'string') return date.slice(0, 7);
+  return format(date, 'yyyy-MM');
+}
+
+export function getLastMonths(count: number, reference: Date = new Date()): MonthBucket[] {
+  const first = startOfMonth(addMonths(reference, -(count - 1)));
+
+  return Array.from({ length: count }, (_, index) => {
+    const start = addMonths(first, index);
+    const label = format(start, count > 12 ? 'MMM/yy' : 'MMM', { locale: ptBR });
+    return {
+      key: toMonthKey(start),
+      label: label.charAt(0).toUpperCase() + label.slice(1),
+      start,
+    };
+  });
+}
@@ -0,0 +1,208 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type ExpenseSort = 'date' | 'amount' | 'category';
+
+export const EXPENSE_SORT_LABELS: Record<ExpenseSort, string> = {
+  date: 'Data',
+  amount: 'Valor',
+  category: 'Categoria',
+};
+
+// Stands for "no category" in the category filter
+export const UNCATEGORIZED = 'none';
+
+export interface ExpenseFilters {
+  search: string;
+  categories: string[];
+  minAmount: number | null;
+  maxAmount: number | null;
+  sort: ExpenseSort;
+  ascending: boolean;
+}
+
+export const DEFAULT_EXPENSE_FILTERS: ExpenseFilters = {
+  search: '',
+  categories: [],
+  minAmount: null,
+  maxAmount: null,
+  sort: 'date',
+  ascending: false,
+};
+
+export const EXPENSE_FILTER_PARAMS = ['q', 'category', 'min', 'max', 'sort', 'dir'];
+
+export const EXPENSE_PAGE_SIZE = 50;
+
+// Where the next page starts: after the last row loaded (keyset) or, when
+// sorting by category name, after the rows already loaded (offset)
+export interface ExpenseCursor {
+  id: string;
+  value: string | number;
+  offset: number;
+}
+
+export interface ExpenseTotals {
+  count: number;
+  total: number;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Category values come from the URL and end up inside PostgREST filter
+// strings, so anything but a category id or UNCATEGORIZED is dropped
+function isCategoryFilter(value: string) {
+  return value === UNCATEGORIZED || UUID_PATTERN.test(value);
+}
+
+function getCategoryIds(filters: ExpenseFilters) {
+  return filters.categories.filter(id => id !== UNCATEGORIZED && UUID_PATTERN.test(id));
+}
+
+function parseAmountParam(value: string | null): number | null {
+  if (!value) return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+export function resolveExpenseFilters(params: URLSearchParams): ExpenseFilters {
+  const sort = params.get('sort');
+  return {
+    search: params.get('q')?.trim() ?? '',
+    categories: params.getAll('category').filter(isCategoryFilter),
+    minAmount: parseAmountParam(params.get('min')),
+    maxAmount: parseAmountParam(params.get('max')),
+    sort: sort === 'amount' || sort === 'category' ? sort : 'date',
+    ascending: params.get('dir') === 'asc',
+  };
+}
+
+// Writes the filters that differ from the defaults into the query string
+export function writeExpenseFilters(params: URLSearchParams, filters: ExpenseFilters) {
+  EXPENSE_FILTER_PARAMS.forEach(key => params.delete(key));
+  if (filters.search) params.set('q', filters.search);
+  filters.categories.forEach(id => params.append('category', id));
+  if (filters.minAmount !== null) params.set('min', String(filters.minAmount));
+  if (filters.maxAmount !== null) params.set('max', String(filters.maxAmount));
+  if (filters.sort !== 'date') params.set('sort', filters.sort);
+  if (filters.ascending) params.set('dir', 'asc');
+}
+
+export function countActiveFilters(filters: ExpenseFilters): number {
+  return [
+    filters.search !== '',
+    filters.categories.length > 0,
+    filters.minAmount !== null || filters.maxAmount !== null,
+  ].filter(Boolean).length;
+}
+
+// Only the untyped filter methods, so any select on expenses can be passed
+interface FilterableQuery {
+  filter(column: string, operator: string, value: unknown): this;
+  or(filters: string): this;
+}
+
+// Matches the search anywhere in the description, with % and _ taken literally
+function getSearchPattern(search: string) {
+  return `%${search.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+}
+
+// Adds the search and filters to a Supabase query on expenses, so they run in
+// the database instead of over rows already loaded
+export function applyExpenseFilters<Q extends FilterableQuery>(query: Q, filters: ExpenseFilters): Q {
+  let result = query;
+
+  if (filters.search) {
+    result = result.filter('description', 'ilike', getSearchPattern(filters.search));
+  }
+
+  if (filters.minAmount !== null) result = result.filter('amount', 'gte', filters.minAmount);
+  if (filters.maxAmount !== null) result = result.filter('amount', 'lte', filters.maxAmount);
+
+  const ids = getCategoryIds(filters);
+  const uncategorized = filters.categories.includes(UNCATEGORIZED);
+  if (uncategorized && ids.length > 0) {
+    result = result.or(`category_id.is.null,category_id.in.(${ids.join(',')})`);
+  } else if (uncategorized) {
+    result = result.filter('category_id', 'is', null);
+  } else if (ids.length > 0) {
+    result = result.filter('category_id', 'in', `(${ids.join(',')})`);
+  }
+
+  return result;
+}
+
+interface SortableQuery {
+  order(column: string, options: { ascending: boolean; nullsFirst?: boolean }): this;
+}
+
+// The id breaks ties so every row has a fixed place between pages
+export function applyExpenseSort<Q extends SortableQuery>(query: Q, filters: ExpenseFilters): Q {
+  const { sort, ascending } = filters;
+  if (sort === 'category') {
+    // Orders by the embedded category; uncategorized expenses go last
+    return query
+      .order('category(name)', { ascending, nullsFirst: false })
+      .order('expense_date', { ascending: false })
+      .order('id', { ascending: false });
+  }
+  const column = sort === 'amount' ? 'amount' : 'expense_date';
+  return query.order(column, { ascending }).order('id', { ascending });
+}
+
+interface PageableQuery {
+  or(filters: string): this;
+  limit(count: number): this;
+  range(from: number, to: number): this;
+}
+
+// Limits a sorted query to the page that starts at the cursor
+export function applyExpensePage<Q extends PageableQuery>(query: Q, filters: ExpenseFilters, cursor: ExpenseCursor | null): Q {
+  if (filters.sort === 'category') {
+    const offset = cursor?.offset ?? 0;
+    return query.range(offset, offset + EXPENSE_PAGE_SIZE - 1);
+  }
+
+  if (!cursor) return query.limit(EXPENSE_PAGE_SIZE);
+
+  const column = filters.sort === 'amount' ? 'amount' : 'expense_date';
+  const op = filters.ascending ? 'gt' : 'lt';
+  return query
+    .or(`${column}.${op}.${cursor.value},and(${column}.eq.${cursor.value},id.${op}.${cursor.id})`)
+    .limit(EXPENSE_PAGE_SIZE);
+}
+
+// The cursor after a page, or null when it was the last one
+export function getNextCursor(
+  page: { id: string; amount: number; expense_date: string }[],
+  filters: ExpenseFilters,
+  cursor: ExpenseCursor | null
+): ExpenseCursor | null {
+  if (page.length < EXPENSE_PAGE_SIZE) return null;
+
+  const last = page[page.length - 1];
+  return {
+    id: last.id,
+    value: filters.sort === 'amount' ? Number(last.amount) : last.expense_date,
+    offset: (cursor?.offset ?? 0) + page.length,
+  };
+}
+
+export async function fetchExpenseTotals(
+  period: { from: string; to: string },
+  filters: ExpenseFilters
+): Promise<ExpenseTotals> {
+  const ids = getCategoryIds(filters);
+  const { data, error } = await supabase.rpc('get_expense_totals', {
+    p_from: period.from,
+    p_to: period.to,
+    p_search: filters.search ? getSearchPattern(filters.search) : undefined,
+    p_category_ids: ids.length > 0 ? ids : undefined,
+    p_uncategorized: filters.categories.includes(UNCATEGORIZED),
+    p_min_amount: filters.minAmount ?? undefined,
+    p_max_amount: filters.maxAmount ?? undefined,
+  });
+
+  if (error) throw error;
+  const [row] = data;
+  return { count: Number(row?.expense_count ?? 0), total: Number(row?.total_amount ?? 0) };
+}
@@ -0,0 +1,476 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import { toCSV } from '@/lib/csv';
+import { toISODate } from '@/lib/dates';
+import { fetchAllPages } from '@/lib/paging';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export type ExportTable =
+  | 'categories'
+  | 'category_budgets'
+  | 'category_rules'
+  | 'accounts'
+  | 'recurring_expenses'
+  | 'installment_purchases'
+  | 'expenses'
+  | 'payments'
+  | 'transfers'
+  | 'challenges'
+  | 'challenge_deposits';
+
+export interface ExportData {
+  categories: Tables<'categories'>[];
+  category_budgets: (Tables<'category_budgets'> & { category_name: string | null })[];
+  category_rules: (Tables<'category_rules'> & { category_name: string | null })[];
+  accounts: Tables<'accounts'>[];
+  recurring_expenses: (Tables<'recurring_expenses'> & { category_name: string | null; account_name: string | null })[];
+  installment_purchases: (Tables<'installment_purchases'> & { category_name: string | null; account_name: string | null })[];
+  expenses: (Tables<'expenses'> & { category_name: string | null; account_name: string | null })[];
+  payments: (Tables<'payments'> & { account_name: string | null })[];
+  transfers: (Tables<'transfers'> & { from_account_name: string | null; to_account_name: string | null })[];
+  challenges: (Tables<'challenge_40k'> & { from_account_name: string | null; to_account_name: string | null })[];
+  challenge_deposits: Tables<'challenge_deposits'>[];
+}
+
+export interface ExportDocument {
+  version: 1;
+  exported_at: string;
+  period: { from: string; to: string };
+  // The tables picked on export and the ones they point at
+  data: Partial<ExportData>;
+}
+
+type ColumnType = 'text' | 'number' | 'amount' | 'date' | 'boolean';
+
+interface ExportColumn {
+  key: string;
+  header: string;
+  type: ColumnType;
+}
+
+export const EXPORT_TABLES: { key: ExportTable; label: string; columns: ExportColumn[] }[] = [
+  {
+    key: 'categories',
+    label: 'Categorias',
+    columns: [
+      { key: 'name', header: 'Nome', type: 'text' },
+      { key: 'color', header: 'Cor', type: 'text' },
+      { key: 'icon', header: 'Ícone', type: 'text' },
+      { key: 'budget', header: 'Orçamento', type: 'amount' },
+      { key: 'budget_period', header: 'Período do orçamento', type: 'text' },
+      { key: 'budget_start_day', header: 'Dia de início', type: 'number' },
+      { key: 'rollover_from', header: 'Acumula saldo desde', type: 'date' },
+    ],
+  },
+  {
+    key: 'category_budgets',
+    label: 'Orçamentos',
+    columns: [
+      { key: 'category_name', header: 'Categoria', type: 'text' },
+      { key: 'month', header: 'A partir de', type: 'date' },
+      { key: 'amount', header: 'Orçamento', type: 'amount' },
+    ],
+  },
+  {
+    key: 'category_rules',
+    label: 'Regras',
+    columns: [
+      { key: 'position', header: 'Ordem', type: 'number' },
+      { key: 'name', header: 'Nome', type: 'text' },
+      { key: 'category_name', header: 'Categoria', type: 'text' },
+      { key: 'match_type', header: 'Tipo de busca', type: 'text' },
+      { key: 'pattern', header: 'Descrição', type: 'text' },
+      { key: 'min_amount', header: 'Valor mínimo', type: 'amount' },
+      { key: 'max_amount', header: 'Valor máximo', type: 'amount' },
+      { key: 'weekdays', header: 'Dias da semana', type: 'text' },
+      { key: 'is_active', header: 'Ativa', type: 'boolean' },
+    ],
+  },
+  {
+    key: 'accounts',
+    label: 'Contas',
+    columns: [
+      { key: 'name', header: 'Nome', type: 'text' },
+      { key: 'type', header: 'Tipo', type: 'text' },
+      { key: 'opening_balance', header: 'Saldo inicial', type: 'amount' },
+      { key: 'opening_date', header: 'Data do saldo inicial', type: 'date' },
+      { key: 'closing_day', header: 'Dia de fechamento', type: 'number' },
+      { key: 'due_day', header: 'Dia de vencimento', type: 'number' },
+      { key: 'is_archived', header: 'Arquivada', type: 'boolean' },
+    ],
+  },
+  {
+    key: 'recurring_expenses',
+    label: 'Recorrentes',
+    columns: [
+      { key: 'description', header: 'Descrição', type: 'text' },
+      { key: 'category_name', header: 'Categoria', type: 'text' },
+      { key: 'account_name', header: 'Conta', type: 'text' },
+      { key: 'amount', header: 'Valor', type: 'amount' },
+      { key: 'frequency', header: 'Frequência', type: 'text' },
+      { key: 'interval_days', header: 'A cada (dias)', type: 'number' },
+      { key: 'day_of_month', header: 'Dia do mês', type: 'number' },
+      { key: 'start_date', header: 'Início', type: 'date' },
+      { key: 'end_date', header: 'Fim', type: 'date' },
+      { key: 'requires_confirmation', header: 'Requer confirmação', type: 'boolean' },
+      { key: 'is_active', header: 'Ativa', type: 'boolean' },
+      { key: 'last_generated_date', header: 'Gerada até', type: 'date' },
+    ],
+  },
+  {
+    key: 'installment_purchases',
+    label: 'Compras parceladas',
+    columns: [
+      { key: 'purchase_date', header: 'Data da compra', type: 'date' },
+      { key: 'description', header: 'Descrição', type: 'text' },
+      { key: 'category_name', header: 'Categoria', type: 'text' },
+      { key: 'account_name', header: 'Conta', type: 'text' },
+      { key: 'installment_count', header: 'Parcelas', type: 'number' },
+      { key: 'total_amount', header: 'Valor total', type: 'amount' },
+    ],
+  },
+  {
+    key: 'expenses',
+    label: 'Despesas',
+    columns: [
+      { key: 'expense_date', header: 'Data', type: 'date' },
+      { key: 'description', header: 'Descrição', type: 'text' },
+      { key: 'category_name', header: 'Categoria', type: 'text' },
+      { key: 'account_name', header: 'Conta', type: 'text' },
+      { key: 'tags', header: 'Tags', type: 'text' },
+      { key: 'installment_number', header: 'Parcela', type: 'number' },
+      { key: 'is_pending', header: 'Pendente', type: 'boolean' },
+      { key: 'amount', header: 'Valor', type: 'amount' },
+    ],
+  },
+  {
+    key: 'payments',
+    label: 'Receitas',
+    columns: [
+      { key: 'payment_date', header: 'Data', type: 'date' },
+      { key: 'source', header: 'Fonte', type: 'text' },
+      { key: 'description', header: 'Descrição', type: 'text' },
+      { key: 'category', header: 'Tipo', type: 'text' },
+      { key: 'account_name', header: 'Conta', type: 'text' },
+      { key: 'amount', header: 'Valor', type: 'amount' },
+    ],
+  },
+  {
+    key: 'transfers',
+    label: 'Transferências',
+    columns: [
+      { key: 'transfer_date', header: 'Data', type: 'date' },
+      { key: 'from_account_name', header: 'De', type: 'text' },
+      { key: 'to_account_name', header: 'Para', type: 'text' },
+      { key: 'description', header: 'Descrição', type: 'text' },
+      { key: 'amount', header: 'Valor', type: 'amount' },
+    ],
+  },
+  {
+    key: 'challenges',
+    label: 'Desafios',
+    columns: [
+      { key: 'name', header: 'Nome', type: 'text' },
+      { key: 'target_value', header: 'Meta', type: 'amount' },
+      { key: 'template', header: 'Modelo', type: 'text' },
+      { key: 'start_date', header: 'Início', type: 'date' },
+      { key: 'deadline', header: 'Prazo', type: 'date' },
+      { key: 'from_account_name', header: 'Sai de', type: 'text' },
+      { key: 'to_account_name', header: 'Guardar em', type: 'text' },
+      { key: 'is_active', header: 'Ativo', type: 'boolean' },
+      { key: 'created_at', header: 'Criado em', type: 'date' },
+    ],
+  },
+  {
+    key: 'challenge_deposits',
+    label: 'Depósitos',
+    columns: [
+      { key: 'sequence_order', header: 'Ordem', type: 'number' },
+      { key: 'deposit_value', header: 'Valor', type: 'amount' },
+      { key: 'status', header: 'Status', type: 'text' },
+      { key: 'completed_at', header: 'Concluído em', type: 'date' },
+    ],
+  },
+];
+
+// Tables a JSON backup can't be restored without, since rows point at them
+const BACKUP_PARENTS: Partial<Record<ExportTable, ExportTable[]>> = {
+  category_budgets: ['categories'],
+  category_rules: ['categories'],
+  recurring_expenses: ['categories', 'accounts'],
+  installment_purchases: ['categories', 'accounts'],
+  expenses: ['categories', 'accounts', 'recurring_expenses', 'installment_purchases'],
+  payments: ['accounts'],
+  transfers: ['accounts'],
+  challenges: ['accounts'],
+  challenge_deposits: ['challenges', 'transfers'],
+};
+
+// The picked tables plus everything they point at, repeated until nothing is missing
+function withBackupParents(tables: ExportTable[]): ExportTable[] {
+  const included = new Set(tables);
+  let added = true;
+  while (added) {
+    added = false;
+    [...included].forEach(table => {
+      (BACKUP_PARENTS[table] ?? []).forEach(parent => {
+        if (!included.has(parent)) {
+          included.add(parent);
+          added = true;
+        }
+      });
+    });
+  }
+  return EXPORT_TABLES.map(t => t.key).filter(key => included.has(key));
+}
+
+// Every table is read page by page, since a request returns at most 1000 rows
+export async function fetchExportData(userId: string, from: string, to: string): Promise<ExportData> {
+  const [
+    categories,
+    budgets,
+    rules,
+    accounts,
+    recurring,
+    purchases,
+    expenses,
+    payments,
+    transfers,
+    challenges,
+  ] = await Promise.all([
+    fetchAllPages((start, end) =>
+      supabase.from('categories').select('*').eq('user_id', userId).order('name').order('id').range(start, end)
+    ),
+    fetchAllPages((start, end) =>
+      supabase
+        .from('category_budgets')
+        .select('*, category:categories(name)')
+        .eq('user_id', userId)
+        .order('month')
+        .order('id')
+        .range(start, end)
+    ),
+    fetchAllPages((start, end) =>
+      supabase
+        .from('category_rules')
+        .select('*, category:categories(name)')
+        .eq('user_id', userId)
+        .order('position')
+        .order('id')
+        .range(start, end)
+    ),
+    fetchAllPages((start, end) =>
+      supabase.from('accounts').select('*').eq('user_id', userId).order('created_at').order('id').range(start, end)
+    ),
+    fetchAllPages((start, end) =>
+      supabase
+        .from('recurring_expenses')
+        .select('*, category:categories(name)')
+        .eq('user_id', userId)
+        .order('created_at')
+        .order('id')
+        .range(start, end)
+    ),
+    // Purchases with an installment in the period, which may have been bought before it
+    fetchAllPages((start, end) =>
+      supabase
+        .from('installment_purchases')
+        .select('*, category:categories(name)')
+        .eq('user_id', userId)
+        .lte('purchase_date', to)
+        .order('purchase_date')
+        .order('id')
+        .range(start, end)
+    ),
+    fetchAllPages((start, end) =>
+      supabase
+        .from('expenses')
+        .select('*, category:categories(name)')
+        .eq('user_id', userId)
+        .gte('expense_date', from)
+        .lte('expense_date', to)
+        .order('expense_date')
+        .order('id')
+        .range(start, end)
+    ),
+    fetchAllPages((start, end) =>
+      supabase
+        .from('payments')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('payment_date', from)
+        .lte('payment_date', to)
+        .order('payment_date')
+        .order('id')
+        .range(start, end)
+    ),
+    fetchAllPages((start, end) =>
+      supabase
+        .from('transfers')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('transfer_date', from)
+        .lte('transfer_date', to)
+        .order('transfer_date')
+        .order('id')
+        .range(start, end)
+    ),
+    fetchAllPages((start, end) =>
+      supabase.from('challenge_40k').select('*').eq('user_id', userId).order('created_at').order('id').range(start, end)
+    ),
+  ]);
+
+  const challengeIds = challenges.map(c => c.id);
+  const deposits = challengeIds.length > 0
+    ? await fetchAllPages((start, end) =>
+        supabase
+          .from('challenge_deposits')
+          .select('*')
+          .in('challenge_id', challengeIds)
+          .order('challenge_id')
+          .order('sequence_order')
+          .order('id')
+          .range(start, end)
+      )
+    : [];
+
+  const billedIds = new Set(expenses.map(e => e.installment_purchase_id));
+  const accountNames = new Map(accounts.map(a => [a.id, a.name]));
+  const accountName = (id: string | null) => (id ? accountNames.get(id) ?? null : null);
+
+  return {
+    categories,
+    category_budgets: budgets.map(({ category, ...budget }) => ({
+      ...budget,
+      category_name: category?.name ?? null,
+    })),
+    category_rules: rules.map(({ category, ...rule }) => ({
+      ...rule,
+      category_name: category?.name ?? null,
+    })),
+    accounts,
+    recurring_expenses: recurring.map(({ category, ...rule }) => ({
+      ...rule,
+      category_name: category?.name ?? null,
+      account_name: accountName(rule.account_id),
+    })),
+    installment_purchases: purchases
+      .filter(purchase => purchase.purchase_date >= from || billedIds.has(purchase.id))
+      .map(({ category, ...purchase }) => ({
+        ...purchase,
+        category_name: category?.name ?? null,
+        account_name: accountName(purchase.account_id),
+      })),
+    expenses: expenses.map(({ category, ...expense }) => ({
+      ...expense,
+      category_name: category?.name ?? null,
+      account_name: accountName(expense.account_id),
+    })),
+    payments: payments.map(payment => ({
+      ...payment,
+      account_name: accountName(payment.account_id),
+    })),
+    transfers: transfers.map(transfer => ({
+      ...transfer,
+      from_account_name: accountName(transfer.from_account_id),
+      to_account_name: accountName(transfer.to_account_id),
+    })),
+    challenges: challenges.map(challenge => ({
+      ...challenge,
+      from_account_name: accountName(challenge.from_account_id),
+      to_account_name: accountName(challenge.to_account_id),
+    })),
+    challenge_deposits: deposits,
+  };
+}
+
+function formatCell(value: unknown, type: ColumnType): string {
+  if (value === null || value === undefined) return '';
+  switch (type) {
+    case 'amount':
+      return formatCurrency(Number(value));
+    case 'date':
+      return formatDate(String(value).length === 10 ? `${value}T00:00:00` : String(value));
+    case 'boolean':
+      return value ? 'Sim' : 'Não';
+    default:
+      return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+}
+
+function toSpreadsheetCell(value: unknown, type: ColumnType) {
+  if (value === null || value === undefined) return null;
+  switch (type) {
+    case 'amount':
+      return { value: Number(value), type: Number, format: '"R$" #,##0.00' };
+    case 'number':
+      return { value: Number(value), type: Number };
+    case 'date':
+      return { value: new Date(String(value).length === 10 ? `${value}T00:00:00` : String(value)), type: Date, format: 'dd/mm/yyyy' };
+    case 'boolean':
+      return { value: value ? 'Sim' : 'Não', type: String };
+    default:
+      return { value: Array.isArray(value) ? value.join(', ') : String(value), type: String };
+  }
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export async function exportData(
+  data: ExportData,
+  format: ExportFormat,
+  tables: ExportTable[],
+  period: { from: string; to: string }
+) {
+  const suffix = `${period.from}_${period.to}`;
+  const selected = EXPORT_TABLES.filter(t => tables.includes(t.key));
+
+  if (format === 'json') {
+    const backup: ExportDocument = {
+      version: 1,
+      exported_at: new Date().toISOString(),
+      period,
+      data: Object.fromEntries(withBackupParents(tables).map(key => [key, data[key]])),
+    };
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `fintrack-backup-${toISODate(new Date())}.json`);
+    return;
+  }
+
+  if (format === 'csv') {
+    selected.forEach(table => {
+      const rows = (data[table.key] as unknown as Record<string, unknown>[]).map(row =>
+        table.columns.map(column => formatCell(row[column.key], column.type))
+      );
+      const csv = toCSV([table.columns.map(c => c.header), ...rows]);
+      // The BOM makes Excel open the file as UTF-8
+      const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+      downloadBlob(blob, `fintrack-${table.key}-${suffix}.csv`);
+    });
+    return;
+  }
+
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  await writeXlsxFile(
+    selected.map(table => ({
+      sheet: table.label,
+      data: [
+        table.columns.map(column => ({ value: column.header, fontWeight: 'bold' as const })),
+        ...(data[table.key] as unknown as Record<string, unknown>[]).map(row =>
+          table.columns.map(column => toSpreadsheetCell(row[column.key], column.type))
+        ),
+      ],
+    }))
+  ).toFile(`fintrack-${suffix}.xlsx`);
+}
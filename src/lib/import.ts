@@ -0,0 +1,42 @@
+export interface ImportedTransaction {
+  date: string;
+  amount: number;
+  description: string;
+}
+
+export interface ExistingTransaction {
+  amount: number;
+  expense_date: string;
+}
+
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function transactionKey(date: string, amount: number): string {
+  return `${date}|${Math.round(Math.abs(amount) * 100)}`;
+}
+
+// Flags imported rows that match an existing expense on date and amount. Matches
+// are consumed one by one so two identical purchases on the same day in the file
+// are only both flagged when both already exist.
+export function findDuplicates(rows: ImportedTransaction[], existing: ExistingTransaction[]): boolean[] {
+  const available = new Map<string, number>();
+  existing.forEach(e => {
+    const key = transactionKey(e.expense_date, Number(e.amount));
+    available.set(key, (available.get(key) ?? 0) + 1);
+  });
+
+  return rows.map(row => {
+    const key = transactionKey(row.date, row.amount);
+    const count = available.get(key) ?? 0;
+    if (count === 0) return false;
+    available.set(key, count - 1);
+    return true;
+  });
+}
@@ -0,0 +1,21 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Payment = Tables<'payments'>;
+
+export type IncomeCategory = 'salary' | 'freelance' | 'dividends' | 'thirteenth' | 'other';
+
+export const INCOME_CATEGORIES: Record<IncomeCategory, { label: string; color: string }> = {
+  salary: { label: 'Salário', color: '#22c55e' },
+  freelance: { label: 'Freelance', color: '#3b82f6' },
+  dividends: { label: 'Dividendos', color: '#a855f7' },
+  thirteenth: { label: '13º salário', color: '#f59e0b' },
+  other: { label: 'Outros', color: '#64748b' },
+};
+
+export function getIncomeCategory(category: string) {
+  return INCOME_CATEGORIES[category as IncomeCategory] ?? INCOME_CATEGORIES.other;
+}
+
+export function sumIncome(payments: Pick<Payment, 'amount'>[]): number {
+  return payments.reduce((sum, p) => sum + Number(p.amount), 0);
+}
@@ -0,0 +1,143 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  BudgetStatus,
+  fetchBudgetHistory,
+  fetchCategoryExpenses,
+  formatBudgetWindow,
+  getBudgetHistoryStart,
+  getBudgetStatus,
+  getBudgetWindow,
+} from '@/lib/budgets';
+import { formatCurrency } from '@/lib/formatters';
+
+export type Notification = Tables<'notifications'>;
+
+export interface NotificationSettings {
+  budget_thresholds: number[];
+  browser_notifications: boolean;
+}
+
+export const BUDGET_THRESHOLDS = [50, 80, 100];
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  budget_thresholds: BUDGET_THRESHOLDS,
+  browser_notifications: false,
+};
+
+type BudgetCategory = Pick<
+  Tables<'categories'>,
+  'id' | 'name' | 'budget' | 'budget_period' | 'budget_start_day' | 'rollover_from'
+>;
+
+export interface BudgetAlert {
+  category: BudgetCategory;
+  threshold: number;
+  status: BudgetStatus;
+}
+
+export async function fetchNotificationSettings(userId: string): Promise<NotificationSettings> {
+  const { data, error } = await supabase
+    .from('notification_settings')
+    .select('budget_thresholds, browser_notifications')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ?? DEFAULT_NOTIFICATION_SETTINGS;
+}
+
+export async function saveNotificationSettings(userId: string, settings: NotificationSettings) {
+  const { error } = await supabase
+    .from('notification_settings')
+    .upsert({ user_id: userId, ...settings }, { onConflict: 'user_id' });
+
+  if (error) throw error;
+}
+
+// The highest threshold the category has reached. Jumping straight past
+// several thresholds produces a single alert for the highest one.
+export function getBudgetAlert(
+  category: BudgetCategory,
+  status: BudgetStatus,
+  thresholds: number[]
+): BudgetAlert | null {
+  if (status.budget <= 0) return null;
+
+  const reached = thresholds.filter(threshold => status.percent >= threshold);
+  return reached.length > 0 ? { category, threshold: Math.max(...reached), status } : null;
+}
+
+function describeAlert({ category, threshold, status }: BudgetAlert) {
+  return {
+    title: threshold >= 100
+      ? `Orçamento de ${category.name} estourado`
+      : `${threshold}% do orçamento de ${category.name}`,
+    message: `${formatCurrency(status.spent)} de ${formatCurrency(status.available)} gastos em ${formatBudgetWindow(status)}`,
+  };
+}
+
+// Checks the category budgets for the periods of the given expense dates and
+// stores a notification when a category reaches a threshold for the first time
+// in the period. Returns only the new notifications.
+export async function evaluateBudgetAlerts(
+  userId: string,
+  expenseDates: string[],
+  settings: NotificationSettings
+): Promise<Notification[]> {
+  const dates = [...new Set(expenseDates)];
+  if (dates.length === 0 || settings.budget_thresholds.length === 0) return [];
+
+  const { data: categories, error } = await supabase
+    .from('categories')
+    .select('id, name, budget, budget_period, budget_start_day, rollover_from')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  if (categories.length === 0) return [];
+
+  // One reference date per category period touched by the expenses
+  const checks = categories.flatMap(category => {
+    const windows = new Map(dates.map(date => {
+      const window = getBudgetWindow(category, date);
+      return [window.start, window] as const;
+    }));
+    return [...windows.values()].map(window => ({ category, reference: window.start, end: window.end }));
+  });
+
+  const from = checks
+    .map(check => getBudgetHistoryStart(check.category, check.reference))
+    .reduce((min, date) => (date < min ? date : min));
+  const to = checks.map(check => check.end).reduce((max, date) => (date > max ? date : max));
+
+  const [expenses, budgetHistory] = await Promise.all([
+    fetchCategoryExpenses(userId, categories.map(category => category.id), from, to),
+    fetchBudgetHistory(userId),
+  ]);
+
+  const alerts = checks.flatMap(({ category, reference }) => {
+    const categoryExpenses = expenses.filter(expense => expense.category_id === category.id);
+    const history = budgetHistory.filter(entry => entry.category_id === category.id);
+    const status = getBudgetStatus(category, categoryExpenses, reference, history);
+    const alert = getBudgetAlert(category, status, settings.budget_thresholds);
+    return alert ? [alert] : [];
+  });
+  if (alerts.length === 0) return [];
+
+  // Thresholds notified before conflict and are skipped, so only new rows come back
+  const { data: inserted, error: insertError } = await supabase
+    .from('notifications')
+    .upsert(alerts.map(alert => ({
+      user_id: userId,
+      type: 'budget',
+      ...describeAlert(alert),
+      link: `/categories?from=${alert.status.start}&to=${alert.status.end}`,
+      category_id: alert.category.id,
+      threshold: alert.threshold,
+      period_key: alert.status.start,
+    })), { onConflict: 'user_id,category_id,threshold,period_key', ignoreDuplicates: true })
+    .select('*');
+
+  if (insertError) throw insertError;
+  return inserted;
+}
@@ -0,0 +1,25 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+// PostgREST returns at most this many rows per request
+export const FETCH_PAGE_SIZE = 1000;
+
+interface PageResult<T> {
+  data: T[] | null;
+  error: PostgrestError | null;
+}
+
+// Fetches every row of a query, one range at a time, until a page comes back
+// short. The query must be ordered by something unique (e.g. id) so rows don't
+// move between pages.
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<PageResult<T>>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + FETCH_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < FETCH_PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,58 @@
+// Parses amounts written as "1.234,56", "-1234,56", "R$ 1.234,56" or "1234.56"
+export function parseBRNumber(value: string): number | null {
+  let text = value.trim().replace(/R\$\s?/i, '').replace(/\s/g, '');
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+
+  if (lastComma > lastDot) {
+    // pt-BR: dots group thousands, comma separates decimals
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else if (lastDot > -1 && lastComma > -1) {
+    // en-US: commas group thousands
+    text = text.replace(/,/g, '');
+  } else if (lastDot > -1 && /^-?\d{1,3}(\.\d{3})+$/.test(text)) {
+    // "1.234" with no decimals is a thousands separator
+    text = text.replace(/\./g, '');
+  }
+
+  if (!/^[-+]?\d+(\.\d+)?$/.test(text)) return null;
+
+  const number = parseFloat(text);
+  return negative ? -Math.abs(number) : number;
+}
+
+// Parses "dd/mm/yyyy", "dd/mm/yy", "dd-mm-yyyy" or ISO "yyyy-mm-dd" into yyyy-MM-dd
+export function parseBRDate(value: string): string | null {
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return buildISODate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const br = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (br) {
+    const year = br[3].length === 2 ? 2000 + Number(br[3]) : Number(br[3]);
+    return buildISODate(year, Number(br[2]), Number(br[1]));
+  }
+
+  return null;
+}
+
+function buildISODate(year: number, month: number, day: number): string | null {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
@@ -0,0 +1,144 @@
+import { addDays, addMonths, addYears, getDaysInMonth, parseISO, setDate, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toISODate } from '@/lib/dates';
+
+export type RecurringExpense = Tables<'recurring_expenses'>;
+
+export type Frequency = 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+export const FREQUENCY_LABELS: Record<Frequency, string> = {
+  weekly: 'Semanal',
+  monthly: 'Mensal',
+  yearly: 'Anual',
+  custom: 'Personalizada',
+};
+
+type RecurrenceRule = Pick<
+  RecurringExpense,
+  'frequency' | 'interval_days' | 'day_of_month' | 'start_date' | 'end_date'
+>;
+
+export interface Occurrence {
+  rule: RecurringExpense;
+  date: string;
+}
+
+// Months without the chosen day (e.g. 31) fall back to their last day
+function monthlyDate(month: Date, day: number): Date {
+  return setDate(startOfMonth(month), Math.min(day, getDaysInMonth(month)));
+}
+
+// Lists every occurrence of a rule between two yyyy-MM-dd dates (inclusive)
+export function getOccurrenceDates(rule: RecurrenceRule, from: string, to: string): string[] {
+  const start = parseISO(rule.start_date);
+  const last = rule.end_date && rule.end_date < to ? rule.end_date : to;
+  const dates: string[] = [];
+
+  const push = (date: Date) => {
+    const iso = toISODate(date);
+    if (iso >= from && iso <= last && iso >= rule.start_date) dates.push(iso);
+    return iso <= last;
+  };
+
+  switch (rule.frequency as Frequency) {
+    case 'monthly': {
+      const day = rule.day_of_month ?? start.getDate();
+      for (let i = 0; push(monthlyDate(addMonths(start, i), day)); i++);
+      break;
+    }
+    case 'yearly': {
+      for (let i = 0; push(monthlyDate(addYears(start, i), start.getDate())); i++);
+      break;
+    }
+    case 'weekly':
+    case 'custom': {
+      const step = rule.frequency === 'weekly' ? 7 : Math.max(rule.interval_days ?? 1, 1);
+      for (let date = start; push(date); date = addDays(date, step));
+      break;
+    }
+  }
+
+  return dates;
+}
+
+export function getNextOccurrence(rule: RecurrenceRule, after: string): string | null {
+  const from = toISODate(addDays(parseISO(after), 1));
+  const to = toISODate(addYears(parseISO(from), 1));
+  return getOccurrenceDates(rule, from, to)[0] ?? null;
+}
+
+export function describeRule(rule: RecurrenceRule): string {
+  switch (rule.frequency as Frequency) {
+    case 'monthly':
+      return `Todo dia ${rule.day_of_month ?? parseISO(rule.start_date).getDate()}`;
+    case 'weekly':
+      return 'Toda semana';
+    case 'yearly':
+      return 'Todo ano';
+    case 'custom':
+      return `A cada ${rule.interval_days} dias`;
+    default:
+      return rule.frequency;
+  }
+}
+
+export function getUpcomingOccurrences(rules: RecurringExpense[], from: string, to: string): Occurrence[] {
+  return rules
+    .filter(rule => rule.is_active)
+    .flatMap(rule => getOccurrenceDates(rule, from, to).map(date => ({ rule, date })))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Creates the expenses that became due since the last run. Variable bills are
+// created as pending so the user can confirm the real amount. Returns the dates
+// of the expenses created, which may reach back several months.
+export async function materializeRecurringExpenses(userId: string, today: Date = new Date()): Promise<string[]> {
+  const todayISO = toISODate(today);
+
+  const { data: rules, error } = await supabase
+    .from('recurring_expenses')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .lte('start_date', todayISO);
+
+  if (error) throw error;
+
+  const created: string[] = [];
+
+  for (const rule of rules) {
+    const from = rule.last_generated_date
+      ? toISODate(addDays(parseISO(rule.last_generated_date), 1))
+      : rule.start_date;
+    const dates = getOccurrenceDates(rule, from, todayISO);
+
+    if (dates.length > 0) {
+      const { data: inserted, error: insertError } = await supabase
+        .from('expenses')
+        .upsert(dates.map(date => ({
+          user_id: userId,
+          category_id: rule.category_id,
+          account_id: rule.account_id,
+          amount: rule.amount,
+          description: rule.description,
+          expense_date: date,
+          recurring_expense_id: rule.id,
+          is_pending: rule.requires_confirmation,
+        })), { onConflict: 'recurring_expense_id,expense_date', ignoreDuplicates: true })
+        .select('expense_date');
+
+      if (insertError) throw insertError;
+      created.push(...inserted.map(expense => expense.expense_date));
+    }
+
+    const { error: updateError } = await supabase
+      .from('recurring_expenses')
+      .update({ last_generated_date: todayISO })
+      .eq('id', rule.id);
+
+    if (updateError) throw updateError;
+  }
+
+  return created;
+}
@@ -0,0 +1,164 @@
+import { parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { formatCurrency } from '@/lib/formatters';
+import { normalizeText } from '@/lib/import';
+import { fetchAllPages } from '@/lib/paging';
+
+export type RuleMatchType = 'contains' | 'starts_with' | 'regex';
+
+export const RULE_MATCH_LABELS: Record<RuleMatchType, string> = {
+  contains: 'Contém',
+  starts_with: 'Começa com',
+  regex: 'Expressão regular',
+};
+
+// Indexed like Date.getDay()
+export const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+export type CategoryRule = Tables<'category_rules'>;
+
+export type RuleConditions = Pick<
+  CategoryRule,
+  'match_type' | 'pattern' | 'min_amount' | 'max_amount' | 'weekdays'
+>;
+
+export interface RuleCandidate {
+  description: string | null;
+  amount: number;
+  expense_date: string;
+}
+
+export interface RuleCandidateExpense extends RuleCandidate {
+  id: string;
+  category_id: string | null;
+}
+
+const UPDATE_CHUNK_SIZE = 200;
+
+// Null when the pattern is fine, otherwise the reason it can't be used
+export function validateRulePattern(matchType: string, pattern: string): string | null {
+  if (matchType !== 'regex' || !pattern) return null;
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch {
+    return 'Expressão regular inválida';
+  }
+}
+
+function matchesDescription(rule: RuleConditions, description: string | null) {
+  if (!rule.pattern) return true;
+  if (!description) return false;
+
+  if (rule.match_type === 'regex') {
+    try {
+      return new RegExp(rule.pattern, 'i').test(description);
+    } catch {
+      return false;
+    }
+  }
+
+  // Accents, case and repeated spaces don't matter, as with imported descriptions
+  const text = normalizeText(description);
+  const pattern = normalizeText(rule.pattern);
+  return rule.match_type === 'starts_with' ? text.startsWith(pattern) : text.includes(pattern);
+}
+
+// One line summary of the conditions, e.g. 'contém "uber" • até R$ 50,00 • Sáb, Dom'
+export function describeRuleConditions(rule: RuleConditions): string {
+  const parts: string[] = [];
+  if (rule.pattern) {
+    parts.push(`${RULE_MATCH_LABELS[rule.match_type as RuleMatchType].toLowerCase()} "${rule.pattern}"`);
+  }
+
+  const min = rule.min_amount !== null ? formatCurrency(Number(rule.min_amount)) : null;
+  const max = rule.max_amount !== null ? formatCurrency(Number(rule.max_amount)) : null;
+  if (min && max) parts.push(`de ${min} a ${max}`);
+  else if (min) parts.push(`a partir de ${min}`);
+  else if (max) parts.push(`até ${max}`);
+
+  if (rule.weekdays.length > 0) {
+    parts.push([...rule.weekdays].sort().map(day => WEEKDAY_LABELS[day]).join(', '));
+  }
+
+  return parts.length > 0 ? parts.join(' • ') : 'qualquer despesa';
+}
+
+export function matchesRule(rule: RuleConditions, expense: RuleCandidate): boolean {
+  const amount = Math.abs(Number(expense.amount));
+  if (rule.min_amount !== null && amount < Number(rule.min_amount)) return false;
+  if (rule.max_amount !== null && amount > Number(rule.max_amount)) return false;
+  if (rule.weekdays.length > 0 && !rule.weekdays.includes(parseISO(expense.expense_date).getDay())) {
+    return false;
+  }
+  return matchesDescription(rule, expense.description);
+}
+
+// The first active rule, in position order, that matches the expense
+export function findMatchingRule(rules: CategoryRule[], expense: RuleCandidate): CategoryRule | null {
+  return sortRules(rules).find(rule => rule.is_active && matchesRule(rule, expense)) ?? null;
+}
+
+export function sortRules(rules: CategoryRule[]): CategoryRule[] {
+  return [...rules].sort((a, b) => a.position - b.position || a.created_at.localeCompare(b.created_at));
+}
+
+export async function fetchCategoryRules(userId: string): Promise<CategoryRule[]> {
+  const { data, error } = await supabase
+    .from('category_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('position')
+    .order('created_at');
+
+  if (error) throw error;
+  return data;
+}
+
+// Every expense of the user (or only the uncategorized ones), page by page
+// since a request returns at most 1000 rows
+export async function fetchRuleCandidates(userId: string, uncategorizedOnly = false): Promise<RuleCandidateExpense[]> {
+  return fetchAllPages((from, to) => {
+    let query = supabase
+      .from('expenses')
+      .select('id, description, amount, expense_date, category_id')
+      .eq('user_id', userId);
+    if (uncategorizedOnly) query = query.is('category_id', null);
+
+    return query
+      .order('expense_date', { ascending: false })
+      .order('id')
+      .range(from, to);
+  });
+}
+
+// Runs the rules over the expenses without a category and saves the matches.
+// Returns the expenses that got a category.
+export async function applyRulesToUncategorized(userId: string, rules: CategoryRule[]): Promise<RuleCandidateExpense[]> {
+  const expenses = await fetchRuleCandidates(userId, true);
+  const byCategory = new Map<string, RuleCandidateExpense[]>();
+
+  expenses.forEach(expense => {
+    const rule = findMatchingRule(rules, expense);
+    if (rule) byCategory.set(rule.category_id, [...(byCategory.get(rule.category_id) ?? []), expense]);
+  });
+
+  const updated: RuleCandidateExpense[] = [];
+  for (const [categoryId, matched] of byCategory) {
+    for (let i = 0; i < matched.length; i += UPDATE_CHUNK_SIZE) {
+      const batch = matched.slice(i, i + UPDATE_CHUNK_SIZE);
+      const { error } = await supabase
+        .from('expenses')
+        .update({ category_id: categoryId })
+        .eq('user_id', userId)
+        .is('category_id', null)
+        .in('id', batch.map(e => e.id));
+
+      if (error) throw error;
+      updated.push(...batch.map(e => ({ ...e, category_id: categoryId })));
+    }
+  }
+
+  return updated;
+}
@@ -0,0 +1,161 @@
+import { parseBRDate, parseBRNumber } from '@/lib/parsers';
+import { ImportedTransaction, normalizeText } from '@/lib/import';
+
+export interface StatementTransaction extends ImportedTransaction {
+  externalId: string;
+}
+
+export interface ParsedStatement {
+  account: string;
+  transactions: StatementTransaction[];
+  // Entries left out for lacking a valid date, amount or id
+  skipped: number;
+}
+
+function readTag(block: string, tag: string): string {
+  // OFX 1.x is SGML and usually leaves leaf elements unclosed
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+}
+
+function parseOFXDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? parseBRDate(`${match[1]}-${match[2]}-${match[3]}`) : null;
+}
+
+export function parseOFX(text: string): ParsedStatement {
+  const bankId = readTag(text, 'BANKID');
+  const accountId = readTag(text, 'ACCTID');
+  const account = [bankId, accountId].filter(Boolean).join('/') || 'ofx';
+
+  const transactions: StatementTransaction[] = [];
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  let skipped = 0;
+
+  blocks.forEach(block => {
+    const content = block.split(/<\/STMTTRN>/i)[0];
+    const date = parseOFXDate(readTag(content, 'DTPOSTED'));
+    const amount = parseBRNumber(readTag(content, 'TRNAMT'));
+    const externalId = readTag(content, 'FITID');
+    if (!date || amount === null || amount === 0 || !externalId) {
+      skipped++;
+      return;
+    }
+
+    transactions.push({
+      date,
+      amount,
+      description: readTag(content, 'MEMO') || readTag(content, 'NAME'),
+      externalId,
+    });
+  });
+
+  return { account, transactions, skipped };
+}
+
+interface QIFEntry {
+  date?: string;
+  amount?: number | null;
+  payee?: string;
+  memo?: string;
+}
+
+// QIF writes dates the way the exporting program's locale does: dd/mm in
+// Brazil, mm/dd in US software, sometimes with ' before the year. A day above
+// 12 in either position gives the order away; without one, dd/mm is assumed.
+function detectQIFDayFirst(dates: string[]): boolean {
+  const parts = dates
+    .map(date => date.match(/^(\d{1,2})[/.-](\d{1,2})[/.-]\d{2,4}$/))
+    .filter((match): match is RegExpMatchArray => match !== null);
+
+  if (parts.some(match => Number(match[1]) > 12)) return true;
+  if (parts.some(match => Number(match[2]) > 12)) return false;
+  return true;
+}
+
+function parseQIFDate(value: string, dayFirst: boolean): string | null {
+  const match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (!match || dayFirst) return parseBRDate(value);
+  return parseBRDate(`${match[2]}/${match[1]}/${match[3]}`);
+}
+
+export function parseQIF(text: string): ParsedStatement {
+  let account = 'qif';
+  const entries: QIFEntry[] = [];
+
+  let inAccountHeader = false;
+  let current: QIFEntry = {};
+
+  const flush = () => {
+    if (current.date !== undefined || current.amount !== undefined) entries.push(current);
+    current = {};
+  };
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('!')) {
+      inAccountHeader = /^!Account/i.test(line);
+      return;
+    }
+
+    const code = line[0];
+    const value = line.slice(1).trim();
+
+    if (inAccountHeader) {
+      if (code === 'N') account = value;
+      if (code === '^') inAccountHeader = false;
+      return;
+    }
+
+    switch (code) {
+      case 'D':
+        current.date = value.replace(/'/g, '/').replace(/\s+/g, '');
+        break;
+      case 'T':
+      case 'U':
+        current.amount = parseBRNumber(value);
+        break;
+      case 'P':
+        current.payee = value;
+        break;
+      case 'M':
+        current.memo = value;
+        break;
+      case '^':
+        flush();
+        break;
+    }
+  });
+  flush();
+
+  const dayFirst = detectQIFDayFirst(entries.flatMap(entry => (entry.date ? [entry.date] : [])));
+  const transactions: StatementTransaction[] = [];
+  // QIF has no transaction ids, so we derive a stable one from the row contents
+  const occurrences = new Map<string, number>();
+  let skipped = 0;
+
+  entries.forEach(entry => {
+    const date = entry.date ? parseQIFDate(entry.date, dayFirst) : null;
+    if (!date || !entry.amount) {
+      skipped++;
+      return;
+    }
+
+    const description = entry.memo || entry.payee || '';
+    const key = `${date}|${Math.round(entry.amount * 100)}|${normalizeText(description)}`;
+    const count = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, count);
+    transactions.push({ date, amount: entry.amount, description, externalId: `${key}#${count}` });
+  });
+
+  return { account, transactions, skipped };
+}
+
+export function parseStatement(fileName: string, text: string): ParsedStatement {
+  if (/\.qif$/i.test(fileName) || /^\s*!Type:/i.test(text)) {
+    return parseQIF(text);
+  }
+  return parseOFX(text);
+}
@@ -0,0 +1,122 @@
+import { supabase } from '@/integrations/supabase/client';
+import { normalizeText } from '@/lib/import';
+import { fetchAllPages } from '@/lib/paging';
+
+export interface TrainingExample {
+  description: string;
+  category_id: string;
+}
+
+export interface CategorySuggestion {
+  categoryId: string;
+  // Probability of the category given the description, from 0 to 1
+  confidence: number;
+}
+
+// Naive Bayes over the words of past descriptions. Counts are weights rather
+// than integers so corrections can count more and edited expenses can be
+// taken back out.
+export interface CategoryModel {
+  documents: Map<string, number>;
+  tokens: Map<string, Map<string, number>>;
+  tokenTotals: Map<string, number>;
+  vocabulary: Map<string, number>;
+}
+
+// Laplace smoothing, so a word never seen with a category doesn't rule it out
+const SMOOTHING = 1;
+const MIN_CONFIDENCE = 0.05;
+
+// Words that say nothing about the category
+const STOPWORDS = new Set([
+  'de', 'da', 'do', 'das', 'dos', 'em', 'no', 'na', 'nos', 'nas', 'com', 'para', 'pra', 'por',
+  'um', 'uma', 'e', 'o', 'a', 'os', 'as', 'ao', 'compra', 'pagamento', 'pagto', 'pag',
+]);
+
+// The distinct words of a description; numbers (dates, card digits, ids) are left out
+export function tokenize(description: string): string[] {
+  const words = normalizeText(description)
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 2 && !/^\d+$/.test(word) && !STOPWORDS.has(word));
+  return [...new Set(words)];
+}
+
+export function createCategoryModel(): CategoryModel {
+  return { documents: new Map(), tokens: new Map(), tokenTotals: new Map(), vocabulary: new Map() };
+}
+
+function addWeight(map: Map<string, number>, key: string, weight: number) {
+  const value = (map.get(key) ?? 0) + weight;
+  if (value > 0) map.set(key, value);
+  else map.delete(key);
+}
+
+// Adds an example to the model; a negative weight takes it back out
+export function learnExample(model: CategoryModel, description: string, categoryId: string, weight = 1) {
+  const tokens = tokenize(description);
+  if (tokens.length === 0) return;
+
+  addWeight(model.documents, categoryId, weight);
+  const counts = model.tokens.get(categoryId) ?? new Map<string, number>();
+  tokens.forEach(token => {
+    addWeight(counts, token, weight);
+    addWeight(model.vocabulary, token, weight);
+  });
+  model.tokens.set(categoryId, counts);
+  addWeight(model.tokenTotals, categoryId, tokens.length * weight);
+}
+
+export function trainCategoryModel(examples: TrainingExample[]): CategoryModel {
+  const model = createCategoryModel();
+  examples.forEach(example => learnExample(model, example.description, example.category_id));
+  return model;
+}
+
+// The most likely categories for a description, best first. Empty when none
+// of its words was seen before, since the guess would only reflect which
+// categories are used the most.
+export function suggestCategories(model: CategoryModel, description: string, limit = 3): CategorySuggestion[] {
+  const tokens = tokenize(description).filter(token => model.vocabulary.has(token));
+  if (tokens.length === 0) return [];
+
+  const totalDocuments = [...model.documents.values()].reduce((sum, count) => sum + count, 0);
+  const vocabularySize = model.vocabulary.size;
+
+  const scores = [...model.documents].map(([categoryId, documents]) => {
+    const counts = model.tokens.get(categoryId);
+    const denominator = (model.tokenTotals.get(categoryId) ?? 0) + SMOOTHING * vocabularySize;
+    const score = tokens.reduce(
+      (sum, token) => sum + Math.log(((counts?.get(token) ?? 0) + SMOOTHING) / denominator),
+      Math.log(documents / totalDocuments)
+    );
+    return { categoryId, score };
+  });
+
+  // Softmax, shifted by the best score so the exponentials don't underflow
+  const best = Math.max(...scores.map(s => s.score));
+  const weights = scores.map(s => ({ categoryId: s.categoryId, weight: Math.exp(s.score - best) }));
+  const total = weights.reduce((sum, w) => sum + w.weight, 0);
+
+  return weights
+    .map(w => ({ categoryId: w.categoryId, confidence: w.weight / total }))
+    .filter(s => s.confidence >= MIN_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
+
+// Categorized expenses with a description, page by page since a request
+// returns at most 1000 rows
+export async function fetchTrainingExamples(userId: string): Promise<TrainingExample[]> {
+  const rows = await fetchAllPages((from, to) =>
+    supabase
+      .from('expenses')
+      .select('id, description, category_id')
+      .eq('user_id', userId)
+      .not('category_id', 'is', null)
+      .not('description', 'is', null)
+      .order('id')
+      .range(from, to)
+  );
+
+  return rows.map(row => ({ description: row.description!, category_id: row.category_id! }));
+}
@@ -0,0 +1,747 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { usePeriod } from '@/hooks/usePeriod';
+import { supabase } from '@/integrations/supabase/client';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { PeriodSelector } from '@/components/period/PeriodSelector';
+import { CardInvoices } from '@/components/accounts/CardInvoices';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Landmark,
+  Plus,
+  Pencil,
+  Trash2,
+  Loader2,
+  ArrowLeftRight,
+  ArrowDownLeft,
+  ArrowUpRight
+} from 'lucide-react';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import { toISODate } from '@/lib/dates';
+import {
+  ACCOUNT_COLORS,
+  ACCOUNT_TYPES,
+  Account,
+  AccountMovements,
+  AccountType,
+  fetchAccountMovements,
+  getAccountMovements,
+  describeExpense,
+  getBalanceAt,
+  getStatement,
+} from '@/lib/accounts';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+const EMPTY_MOVEMENTS: AccountMovements = { expenses: [], payments: [], transfers: [] };
+
+export default function Accounts() {
+  const { user } = useAuth();
+  const { period } = usePeriod();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [movements, setMovements] = useState<AccountMovements>(EMPTY_MOVEMENTS);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [deleteTransferId, setDeleteTransferId] = useState<string | null>(null);
+
+  // Account form state
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AccountType>('checking');
+  const [color, setColor] = useState(ACCOUNT_COLORS[0]);
+  const [openingBalance, setOpeningBalance] = useState('');
+  const [openingDate, setOpeningDate] = useState(toISODate(new Date()));
+  const [isArchived, setIsArchived] = useState(false);
+  const [closingDay, setClosingDay] = useState('');
+  const [dueDay, setDueDay] = useState('');
+
+  // Transfer form state
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [fromAccountId, setFromAccountId] = useState('');
+  const [toAccountId, setToAccountId] = useState('');
+  const [transferAmount, setTransferAmount] = useState('');
+  const [transferDate, setTransferDate] = useState(toISODate(new Date()));
+  const [transferDescription, setTransferDescription] = useState('');
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      const { data: accountsData } = await supabase
+        .from('accounts')
+        .select('*')
+        .eq('user_id', user!.id)
+        .order('created_at');
+
+      if (accountsData) {
+        setAccounts(accountsData);
+        setSelectedId(prev => prev ?? accountsData.find(a => !a.is_archived)?.id ?? null);
+      }
+
+      setMovements(await fetchAccountMovements(user!.id));
+    } catch (error) {
+      console.error('Error fetching accounts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const balanceValue = parseFloat(openingBalance) || 0;
+    if (!name.trim()) {
+      toast.error('Informe o nome da conta');
+      return;
+    }
+
+    const isCard = type === 'credit_card';
+    const closing = parseInt(closingDay);
+    const due = parseInt(dueDay);
+    if (isCard && [closing, due].some(day => isNaN(day) || day < 1 || day > 31)) {
+      toast.error('Informe os dias de fechamento e vencimento (1 a 31)');
+      return;
+    }
+
+    const values = {
+      name: name.trim(),
+      type,
+      color,
+      opening_balance: balanceValue,
+      opening_date: openingDate,
+      is_archived: isArchived,
+      closing_day: isCard ? closing : null,
+      due_day: isCard ? due : null,
+    };
+
+    try {
+      if (editingAccount) {
+        const { error } = await supabase
+          .from('accounts')
+          .update(values)
+          .eq('id', editingAccount.id);
+
+        if (error) throw error;
+        toast.success('Conta atualizada!');
+      } else {
+        const { data, error } = await supabase
+          .from('accounts')
+          .insert({ ...values, user_id: user!.id })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        setSelectedId(data.id);
+        toast.success('Conta criada!');
+      }
+
+      resetForm();
+      fetchData();
+    } catch (error) {
+      toast.error('Erro ao salvar conta');
+    }
+  };
+
+  const handleTransfer = async () => {
+    const amountValue = parseFloat(transferAmount);
+    if (!fromAccountId || !toAccountId) {
+      toast.error('Selecione as contas de origem e destino');
+      return;
+    }
+    if (fromAccountId === toAccountId) {
+      toast.error('Escolha contas diferentes');
+      return;
+    }
+    if (isNaN(amountValue) || amountValue <= 0) {
+      toast.error('Informe um valor válido');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('transfers')
+        .insert({
+          user_id: user!.id,
+          from_account_id: fromAccountId,
+          to_account_id: toAccountId,
+          amount: amountValue,
+          transfer_date: transferDate,
+          description: transferDescription.trim() || null,
+        });
+
+      if (error) throw error;
+      toast.success('Transferência registrada!');
+      resetTransferForm();
+      fetchData();
+    } catch (error) {
+      toast.error('Erro ao registrar transferência');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+
+    try {
+      const { error } = await supabase
+        .from('accounts')
+        .delete()
+        .eq('id', deleteId);
+
+      if (error) throw error;
+      toast.success('Conta excluída!');
+      if (selectedId === deleteId) setSelectedId(null);
+      setDeleteId(null);
+      fetchData();
+    } catch (error) {
+      toast.error('Erro ao excluir conta');
+    }
+  };
+
+  const handleDeleteTransfer = async () => {
+    if (!deleteTransferId) return;
+
+    try {
+      const { error } = await supabase
+        .from('transfers')
+        .delete()
+        .eq('id', deleteTransferId);
+
+      if (error) throw error;
+      toast.success('Transferência excluída!');
+      setDeleteTransferId(null);
+      fetchData();
+    } catch (error) {
+      toast.error('Erro ao excluir transferência');
+    }
+  };
+
+  const resetForm = () => {
+    setName('');
+    setType('checking');
+    setColor(ACCOUNT_COLORS[0]);
+    setOpeningBalance('');
+    setOpeningDate(toISODate(new Date()));
+    setIsArchived(false);
+    setClosingDay('');
+    setDueDay('');
+    setEditingAccount(null);
+    setDialogOpen(false);
+  };
+
+  const resetTransferForm = () => {
+    setFromAccountId('');
+    setToAccountId('');
+    setTransferAmount('');
+    setTransferDate(toISODate(new Date()));
+    setTransferDescription('');
+    setTransferOpen(false);
+  };
+
+  const openEdit = (account: Account) => {
+    setEditingAccount(account);
+    setName(account.name);
+    setType(account.type as AccountType);
+    setColor(account.color);
+    setOpeningBalance(account.opening_balance.toString());
+    setOpeningDate(account.opening_date);
+    setIsArchived(account.is_archived);
+    setClosingDay(account.closing_day?.toString() || '');
+    setDueDay(account.due_day?.toString() || '');
+    setDialogOpen(true);
+  };
+
+  const openTransfer = () => {
+    setFromAccountId(selectedId ?? '');
+    setTransferOpen(true);
+  };
+
+  const accountNames = new Map(accounts.map(a => [a.id, a.name]));
+  const statements = new Map(accounts.map(account => [
+    account.id,
+    getStatement(account, getAccountMovements(account, movements, accountNames)),
+  ]));
+  const today = toISODate(new Date());
+  const balanceOf = (account: Account) => getBalanceAt(account, statements.get(account.id) ?? [], today);
+  const activeAccounts = accounts.filter(a => !a.is_archived);
+  const totalBalance = activeAccounts.reduce((sum, a) => sum + balanceOf(a), 0);
+
+  const selectedAccount = accounts.find(a => a.id === selectedId) ?? null;
+  const selectedLines = (selectedAccount ? statements.get(selectedAccount.id) ?? [] : [])
+    .filter(line => line.date >= period.from && line.date <= period.to)
+    .reverse();
+
+  if (loading) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2">
+              <Landmark className="w-8 h-8 text-primary" />
+              Contas
+            </h1>
+            <p className="text-muted-foreground">
+              Saldo total: {formatCurrency(totalBalance)}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <PeriodSelector />
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={openTransfer}
+              disabled={activeAccounts.length < 2}
+            >
+              <ArrowLeftRight className="w-4 h-4" />
+              Transferir
+            </Button>
+            <Button className="gap-2" onClick={() => setDialogOpen(true)}>
+              <Plus className="w-4 h-4" />
+              Nova Conta
+            </Button>
+          </div>
+        </div>
+
+        {/* Accounts */}
+        {accounts.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <Landmark className="w-12 h-12 text-muted-foreground mb-4" />
+              <h3 className="font-semibold mb-2">Nenhuma conta</h3>
+              <p className="text-muted-foreground text-sm mb-4">
+                Cadastre contas, carteiras e cartões para acompanhar o saldo de cada um
+              </p>
+              <Button onClick={() => setDialogOpen(true)} className="gap-2">
+                <Plus className="w-4 h-4" />
+                Criar Primeira Conta
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {accounts.map((account) => {
+              const balance = balanceOf(account);
+
+              return (
+                <Card
+                  key={account.id}
+                  onClick={() => setSelectedId(account.id)}
+                  className={cn(
+                    "cursor-pointer hover:shadow-soft transition-all overflow-hidden",
+                    selectedId === account.id && "ring-2 ring-primary",
+                    account.is_archived && "opacity-60"
+                  )}
+                >
+                  <div className="h-1" style={{ backgroundColor: account.color }} />
+                  <CardContent className="pt-5">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-semibold truncate">{account.name}</h3>
+                          {account.is_archived && <Badge variant="outline">Arquivada</Badge>}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {ACCOUNT_TYPES[account.type as AccountType]}
+                          {account.closing_day && ` • fecha dia ${account.closing_day}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openEdit(account);
+                          }}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDeleteId(account.id);
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <p className={cn("text-2xl font-bold mt-3", balance < 0 && "text-destructive")}>
+                      {formatCurrency(balance)}
+                    </p>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Credit Card Invoices */}
+        {selectedAccount?.type === 'credit_card' && (
+          <CardInvoices
+            name={selectedAccount.name}
+            cycle={selectedAccount}
+            expenses={movements.expenses
+              .filter(e => e.account_id === selectedAccount.id)
+              .map(e => ({ ...e, description: describeExpense(e) }))}
+          />
+        )}
+
+        {/* Statement */}
+        {selectedAccount && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                Extrato • {selectedAccount.name}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {selectedLines.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  Nenhuma movimentação em {period.label}
+                </p>
+              ) : (
+                <div className="divide-y divide-border">
+                  {selectedLines.map((line) => {
+                    const isTransfer = line.kind === 'transfer_in' || line.kind === 'transfer_out';
+
+                    return (
+                      <div key={`${line.kind}-${line.id}`} className="flex items-center justify-between gap-4 py-3">
+                        <div className="flex items-center gap-3 min-w-0">
+                          <div className={cn(
+                            "w-8 h-8 rounded-lg flex items-center justify-center shrink-0",
+                            line.amount < 0 ? "bg-destructive/10 text-destructive" : "bg-primary/10 text-primary"
+                          )}>
+                            {isTransfer
+                              ? <ArrowLeftRight className="w-4 h-4" />
+                              : line.amount < 0
+                                ? <ArrowUpRight className="w-4 h-4" />
+                                : <ArrowDownLeft className="w-4 h-4" />}
+                          </div>
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{line.description}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatDate(`${line.date}T00:00:00`)}
+                              {isTransfer && ' • Transferência'}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <div className="text-right">
+                            <p className={cn("font-semibold", line.amount < 0 ? "text-destructive" : "text-primary")}>
+                              {formatCurrency(line.amount)}
+                            </p>
+                            <p className="text-xs text-muted-foreground">{formatCurrency(line.balance)}</p>
+                          </div>
+                          {isTransfer && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-destructive hover:text-destructive"
+                              onClick={() => setDeleteTransferId(line.id)}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Account Dialog */}
+        <Dialog open={dialogOpen} onOpenChange={(open) => {
+          if (!open) resetForm();
+          setDialogOpen(open);
+        }}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {editingAccount ? 'Editar Conta' : 'Nova Conta'}
+              </DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4 pt-4">
+              <div className="space-y-2">
+                <Label>Nome</Label>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Ex: Conta conjunta, Nubank, Carteira"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select value={type} onValueChange={(value) => setType(value as AccountType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ACCOUNT_TYPES) as AccountType[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {ACCOUNT_TYPES[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Cor</Label>
+                <div className="flex flex-wrap gap-2">
+                  {ACCOUNT_COLORS.map((c) => (
+                    <button
+                      key={c}
+                      onClick={() => setColor(c)}
+                      className={cn(
+                        "w-8 h-8 rounded-lg transition-transform",
+                        color === c && "ring-2 ring-offset-2 ring-primary scale-110"
+                      )}
+                      style={{ backgroundColor: c }}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              {type === 'credit_card' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Dia de fechamento</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={31}
+                      value={closingDay}
+                      onChange={(e) => setClosingDay(e.target.value)}
+                      placeholder="Ex: 25"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Dia de vencimento</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={31}
+                      value={dueDay}
+                      onChange={(e) => setDueDay(e.target.value)}
+                      placeholder="Ex: 5"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Saldo inicial</Label>
+                  <Input
+                    type="number"
+                    value={openingBalance}
+                    onChange={(e) => setOpeningBalance(e.target.value)}
+                    placeholder="0,00"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Em</Label>
+                  <Input
+                    type="date"
+                    value={openingDate}
+                    onChange={(e) => setOpeningDate(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              {editingAccount && (
+                <div className="flex items-center justify-between gap-4 rounded-xl border border-border p-3">
+                  <div>
+                    <Label htmlFor="is-archived">Arquivar</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Some dos formulários e do saldo total, mas mantém o histórico
+                    </p>
+                  </div>
+                  <Switch
+                    id="is-archived"
+                    checked={isArchived}
+                    onCheckedChange={setIsArchived}
+                  />
+                </div>
+              )}
+
+              <Button onClick={handleSubmit} className="w-full">
+                {editingAccount ? 'Salvar' : 'Criar'}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Transfer Dialog */}
+        <Dialog open={transferOpen} onOpenChange={(open) => {
+          if (!open) resetTransferForm();
+          setTransferOpen(open);
+        }}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Nova Transferência</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4 pt-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>De</Label>
+                  <Select value={fromAccountId} onValueChange={setFromAccountId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Origem" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Para</Label>
+                  <Select value={toAccountId} onValueChange={setToAccountId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Destino" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeAccounts.filter(a => a.id !== fromAccountId).map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Valor</Label>
+                  <Input
+                    type="number"
+                    value={transferAmount}
+                    onChange={(e) => setTransferAmount(e.target.value)}
+                    placeholder="0,00"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Data</Label>
+                  <Input
+                    type="date"
+                    value={transferDate}
+                    onChange={(e) => setTransferDate(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Descrição (opcional)</Label>
+                <Input
+                  value={transferDescription}
+                  onChange={(e) => setTransferDescription(e.target.value)}
+                  placeholder="Ex: Pagamento da fatura"
+                />
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Transferências movem saldo entre suas contas e não contam como despesa ou receita.
+              </p>
+
+              <Button onClick={handleTransfer} className="w-full">
+                Transferir
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Delete Confirmation */}
+        <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Excluir conta?</AlertDialogTitle>
+              <AlertDialogDescription>
+                As transferências da conta serão excluídas. Despesas e receitas são mantidas, sem conta vinculada.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">
+                Excluir
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <AlertDialog open={!!deleteTransferId} onOpenChange={() => setDeleteTransferId(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Excluir transferência?</AlertDialogTitle>
+              <AlertDialogDescription>
+                O valor volta para a conta de origem. Esta ação não pode ser desfeita.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDeleteTransfer} className="bg-destructive hover:bg-destructive/90">
+                Excluir
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { BudgetPlanner } from '@/components/budgets/BudgetPlanner';
+import { BudgetReport } from '@/components/budgets/BudgetReport';
+import { Card, CardContent } from '@/components/ui/card';
+import { PiggyBank, Loader2 } from 'lucide-react';
+import { BudgetCategory, CategoryBudget, fetchBudgetHistory } from '@/lib/budgets';
+
+export default function Budgets() {
+  const { user } = useAuth();
+  const [categories, setCategories] = useState<BudgetCategory[]>([]);
+  const [history, setHistory] = useState<CategoryBudget[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      const [{ data: categoriesData, error }, historyData] = await Promise.all([
+        supabase
+          .from('categories')
+          .select('id, name, color, budget, budget_period, budget_start_day, rollover_from')
+          .eq('user_id', user!.id)
+          .order('name'),
+        fetchBudgetHistory(user!.id),
+      ]);
+
+      if (error) throw error;
+      setCategories(categoriesData);
+      setHistory(historyData);
+    } catch (error) {
+      console.error('Error fetching budgets:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2">
+            <PiggyBank className="w-8 h-8 text-primary" />
+            Orçamentos
+          </h1>
+          <p className="text-muted-foreground">Planeje os próximos meses e compare com o que foi gasto</p>
+        </div>
+
+        {categories.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <PiggyBank className="w-12 h-12 text-muted-foreground mb-4" />
+              <h3 className="font-semibold mb-2">Nenhuma categoria</h3>
+              <p className="text-muted-foreground text-sm">
+                Crie categorias para planejar seus orçamentos
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <BudgetPlanner categories={categories} history={history} onSaved={fetchData} />
+            <BudgetReport categories={categories} history={history} />
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
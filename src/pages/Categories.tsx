@@ -1,12 +1,15 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { usePeriod } from '@/hooks/usePeriod';
 import { supabase } from '@/integrations/supabase/client';
 import { AppLayout } from '@/components/layout/AppLayout';
+import { PeriodSelector } from '@/components/period/PeriodSelector';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
 import { 
   Tags, 
   Plus,
@@ -16,6 +19,21 @@ import {
   AlertTriangle
 } from 'lucide-react';
 import { formatCurrency, formatPercent } from '@/lib/formatters';
+import { toISODate } from '@/lib/dates';
+import {
+  BUDGET_PERIOD_LABELS,
+  BudgetHistory,
+  BudgetPeriod,
+  BudgetStatus,
+  fetchBudgetHistory,
+  fetchCategoryExpenses,
+  formatBudgetWindow,
+  getBudgetForMonth,
+  getBudgetHistoryStart,
+  getBudgetStatus,
+  getBudgetWindow,
+  saveMonthlyBudgets,
+} from '@/lib/budgets';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import {
@@ -25,6 +43,13 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -42,7 +67,11 @@ interface Category {
   color: string;
   icon: string;
   budget: number;
-  spent?: number;
+  budget_period: string;
+  budget_start_day: number;
+  rollover_from: string | null;
+  history: BudgetHistory;
+  status: BudgetStatus;
 }
 
 const COLORS = [
@@ -55,8 +84,14 @@ const ICONS = [
   'film', 'book', 'plane', 'gift', 'coffee', 'briefcase', 'gamepad'
 ];
 
+// Budget changes are recorded for the month today's budget period starts in
+function currentBudgetMonth(config: Pick<Category, 'budget_period' | 'budget_start_day'>) {
+  return getBudgetWindow(config, toISODate(new Date())).start.slice(0, 7);
+}
+
 export default function Categories() {
   const { user } = useAuth();
+  const { period } = usePeriod();
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -68,12 +103,15 @@ export default function Categories() {
   const [color, setColor] = useState(COLORS[0]);
   const [icon, setIcon] = useState(ICONS[0]);
   const [budget, setBudget] = useState('');
+  const [budgetPeriod, setBudgetPeriod] = useState<BudgetPeriod>('monthly');
+  const [startDay, setStartDay] = useState('1');
+  const [rollover, setRollover] = useState(false);
 
   useEffect(() => {
     if (user) {
       fetchCategories();
     }
-  }, [user]);
+  }, [user, period.from, period.to]);
 
   const fetchCategories = async () => {
     try {
@@ -84,25 +122,32 @@ export default function Categories() {
         .order('name');
 
       if (categoriesData) {
-        // Get expenses for current month
-        const startOfMonth = new Date();
-        startOfMonth.setDate(1);
-        startOfMonth.setHours(0, 0, 0, 0);
-
-        const { data: expenses } = await supabase
-          .from('expenses')
-          .select('category_id, amount')
-          .eq('user_id', user!.id)
-          .gte('expense_date', startOfMonth.toISOString().split('T')[0]);
-
-        const categoriesWithSpent = categoriesData.map(cat => {
-          const spent = expenses
-            ?.filter(e => e.category_id === cat.id)
-            .reduce((sum, e) => sum + Number(e.amount), 0) || 0;
-          return { ...cat, spent };
+        // Each budget is shown for its own period around today, or around the
+        // closest day of the selected period when browsing other months
+        const today = toISODate(new Date());
+        let reference = today;
+        if (period.to < today) reference = period.to;
+        else if (period.from > today) reference = period.from;
+
+        const from = categoriesData
+          .map(cat => getBudgetHistoryStart(cat, reference))
+          .reduce((min, date) => (date < min ? date : min), reference);
+        const to = categoriesData
+          .map(cat => getBudgetWindow(cat, reference).end)
+          .reduce((max, date) => (date > max ? date : max), reference);
+
+        const [expenses, budgetHistory] = await Promise.all([
+          fetchCategoryExpenses(user!.id, categoriesData.map(cat => cat.id), from, to),
+          fetchBudgetHistory(user!.id),
+        ]);
+
+        const categoriesWithStatus = categoriesData.map(cat => {
+          const categoryExpenses = expenses.filter(e => e.category_id === cat.id);
+          const history = budgetHistory.filter(entry => entry.category_id === cat.id);
+          return { ...cat, history, status: getBudgetStatus(cat, categoryExpenses, reference, history) };
         });
 
-        setCategories(categoriesWithSpent);
+        setCategories(categoriesWithStatus);
       }
     } catch (error) {
       console.error('Error fetching categories:', error);
@@ -118,22 +163,46 @@ export default function Categories() {
     }
 
     const budgetValue = parseFloat(budget) || 0;
+    const startDayValue = budgetPeriod === 'weekly' ? 1 : Number(startDay);
+    if (!Number.isInteger(startDayValue) || startDayValue < 1 || startDayValue > 31) {
+      toast.error('O dia de início deve estar entre 1 e 31');
+      return;
+    }
+
+    // Rollover counts from the period it was turned on in
+    const config = { budget_period: budgetPeriod, budget_start_day: startDayValue };
+    const rolloverFrom = rollover
+      ? editingCategory?.rollover_from ?? getBudgetWindow(config, toISODate(new Date())).start
+      : null;
+    const values = { name, color, icon, budget: budgetValue, ...config, rollover_from: rolloverFrom };
+    const month = currentBudgetMonth(config);
 
     try {
       if (editingCategory) {
         const { error } = await supabase
           .from('categories')
-          .update({ name, color, icon, budget: budgetValue })
+          .update(values)
           .eq('id', editingCategory.id);
 
         if (error) throw error;
+
+        // Earlier months keep the budget they had
+        if (budgetValue !== getBudgetForMonth(editingCategory, editingCategory.history, month)) {
+          await saveMonthlyBudgets(user!.id, month, [{ category_id: editingCategory.id, amount: budgetValue }]);
+        }
         toast.success('Categoria atualizada!');
       } else {
-        const { error } = await supabase
+        const { data: created, error } = await supabase
           .from('categories')
-          .insert({ user_id: user!.id, name, color, icon, budget: budgetValue });
+          .insert({ user_id: user!.id, ...values })
+          .select('id')
+          .single();
 
         if (error) throw error;
+
+        if (budgetValue > 0) {
+          await saveMonthlyBudgets(user!.id, month, [{ category_id: created.id, amount: budgetValue }]);
+        }
         toast.success('Categoria criada!');
       }
 
@@ -167,6 +236,9 @@ export default function Categories() {
     setColor(COLORS[0]);
     setIcon(ICONS[0]);
     setBudget('');
+    setBudgetPeriod('monthly');
+    setStartDay('1');
+    setRollover(false);
     setEditingCategory(null);
     setDialogOpen(false);
   };
@@ -176,7 +248,10 @@ export default function Categories() {
     setName(category.name);
     setColor(category.color);
     setIcon(category.icon);
-    setBudget(category.budget.toString());
+    setBudget(getBudgetForMonth(category, category.history, currentBudgetMonth(category)).toString());
+    setBudgetPeriod(category.budget_period as BudgetPeriod);
+    setStartDay(category.budget_start_day.toString());
+    setRollover(!!category.rollover_from);
     setDialogOpen(true);
   };
 
@@ -203,65 +278,114 @@ export default function Categories() {
             <p className="text-muted-foreground">Organize seus gastos por categoria</p>
           </div>
 
-          <Dialog open={dialogOpen} onOpenChange={(open) => {
-            if (!open) resetForm();
-            setDialogOpen(open);
-          }}>
-            <DialogTrigger asChild>
-              <Button className="gap-2">
-                <Plus className="w-4 h-4" />
-                Nova Categoria
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>
-                  {editingCategory ? 'Editar Categoria' : 'Nova Categoria'}
-                </DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4 pt-4">
-                <div className="space-y-2">
-                  <Label>Nome</Label>
-                  <Input
-                    value={name}
-                    onChange={(e) => setName(e.target.value)}
-                    placeholder="Ex: Alimentação"
-                  />
-                </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <PeriodSelector />
+
+            <Dialog open={dialogOpen} onOpenChange={(open) => {
+              if (!open) resetForm();
+              setDialogOpen(open);
+            }}>
+              <DialogTrigger asChild>
+                <Button className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  Nova Categoria
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingCategory ? 'Editar Categoria' : 'Nova Categoria'}
+                  </DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 pt-4">
+                  <div className="space-y-2">
+                    <Label>Nome</Label>
+                    <Input
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="Ex: Alimentação"
+                    />
+                  </div>
 
-                <div className="space-y-2">
-                  <Label>Cor</Label>
-                  <div className="flex flex-wrap gap-2">
-                    {COLORS.map((c) => (
-                      <button
-                        key={c}
-                        onClick={() => setColor(c)}
-                        className={cn(
-                          "w-8 h-8 rounded-lg transition-transform",
-                          color === c && "ring-2 ring-offset-2 ring-primary scale-110"
-                        )}
-                        style={{ backgroundColor: c }}
+                  <div className="space-y-2">
+                    <Label>Cor</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {COLORS.map((c) => (
+                        <button
+                          key={c}
+                          onClick={() => setColor(c)}
+                          className={cn(
+                            "w-8 h-8 rounded-lg transition-transform",
+                            color === c && "ring-2 ring-offset-2 ring-primary scale-110"
+                          )}
+                          style={{ backgroundColor: c }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Orçamento</Label>
+                      <Input
+                        type="number"
+                        value={budget}
+                        onChange={(e) => setBudget(e.target.value)}
+                        placeholder="0,00"
                       />
-                    ))}
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Período</Label>
+                      <Select value={budgetPeriod} onValueChange={(value) => setBudgetPeriod(value as BudgetPeriod)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(BUDGET_PERIOD_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
-                </div>
 
-                <div className="space-y-2">
-                  <Label>Orçamento Mensal</Label>
-                  <Input
-                    type="number"
-                    value={budget}
-                    onChange={(e) => setBudget(e.target.value)}
-                    placeholder="0,00"
-                  />
-                </div>
+                  {budgetPeriod !== 'weekly' && (
+                    <div className="space-y-2">
+                      <Label>Dia de início</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={startDay}
+                        onChange={(e) => setStartDay(e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Use o dia em que você recebe, por exemplo 5 para períodos de 05 a 04
+                      </p>
+                    </div>
+                  )}
 
-                <Button onClick={handleSubmit} className="w-full">
-                  {editingCategory ? 'Salvar' : 'Criar'}
-                </Button>
-              </div>
-            </DialogContent>
-          </Dialog>
+                  <div className="flex items-center justify-between gap-4 rounded-xl border border-border p-3">
+                    <div>
+                      <Label htmlFor="rollover">Acumular saldo</Label>
+                      <p className="text-xs text-muted-foreground">
+                        O que sobrar ou estourar passa para o próximo período
+                      </p>
+                    </div>
+                    <Switch
+                      id="rollover"
+                      checked={rollover}
+                      onCheckedChange={setRollover}
+                    />
+                  </div>
+
+                  <Button onClick={handleSubmit} className="w-full">
+                    {editingCategory ? 'Salvar' : 'Criar'}
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         {/* Categories Grid */}
@@ -282,10 +406,9 @@ export default function Categories() {
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
             {categories.map((category) => {
-              const percent = category.budget > 0 
-                ? ((category.spent || 0) / category.budget) * 100 
-                : 0;
-              const isOverBudget = percent > 100;
+              const { status } = category;
+              const percent = status.percent;
+              const isOverBudget = status.budget > 0 && status.spent > status.available;
 
               return (
                 <Card 
@@ -323,7 +446,10 @@ export default function Categories() {
                         <div>
                           <h3 className="font-semibold">{category.name}</h3>
                           <p className="text-sm text-muted-foreground">
-                            {formatCurrency(category.spent || 0)} / {formatCurrency(category.budget)}
+                            {formatCurrency(status.spent)} / {formatCurrency(status.available)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {BUDGET_PERIOD_LABELS[category.budget_period as BudgetPeriod]} · {formatBudgetWindow(status)}
                           </p>
                         </div>
                       </div>
@@ -356,6 +482,14 @@ export default function Categories() {
                           {isOverBudget && <AlertTriangle className="w-4 h-4 inline mr-1" />}
                           {formatPercent(Math.min(percent, 100))} usado
                         </span>
+                        {status.carry !== 0 && (
+                          <span className={cn(
+                            "text-xs",
+                            status.carry > 0 ? "text-success" : "text-destructive"
+                          )}>
+                            {status.carry > 0 ? '+' : '−'}{formatCurrency(Math.abs(status.carry))} acumulado
+                          </span>
+                        )}
                       </div>
                       <div className="h-2 bg-muted rounded-full overflow-hidden">
                         <div 
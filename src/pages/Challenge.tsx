@@ -1,11 +1,21 @@
 import { useState, useEffect } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { getPeriodSearch } from '@/hooks/usePeriod';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ChallengePaceCard } from '@/components/challenge/ChallengePaceCard';
+import { DepositHistory } from '@/components/challenge/DepositHistory';
+import { DepositPlanner } from '@/components/challenge/DepositPlanner';
+import { DepositEvents } from '@/components/challenge/DepositEvents';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
 import { 
   Target, 
   Trophy,
@@ -13,9 +23,25 @@ import {
   Circle,
   SkipForward,
   Loader2,
-  Sparkles
+  Sparkles,
+  ArrowLeft,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+  CalendarDays,
+  ArrowLeftRight,
+  History,
+  Wand2
 } from 'lucide-react';
-import { formatCurrency, formatPercent } from '@/lib/formatters';
+import { formatCurrency, formatDate, formatPercent } from '@/lib/formatters';
+import {
+  CHALLENGE_TEMPLATES,
+  ChallengeTemplate,
+  DepositStatus,
+  completeDeposits,
+  getChallengePace,
+  setDepositStatus,
+} from '@/lib/challenge';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import {
@@ -24,52 +50,93 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 
 interface Deposit {
   id: string;
+  challenge_id: string;
   deposit_value: number;
   sequence_order: number;
-  status: 'pending' | 'completed' | 'skipped';
+  status: DepositStatus;
+  completed_at: string | null;
+  transfer_id: string | null;
 }
 
+type ChallengeRow = Tables<'challenge_40k'>;
+
+interface DepositChange {
+  before: Deposit;
+  after: Deposit;
+}
+
+// A single toast id, so only the latest action can be undone
+const UNDO_TOAST_ID = 'deposit-undo';
+
+const STATUS_MESSAGES: Record<DepositStatus, string> = {
+  completed: 'Depósito marcado como concluído!',
+  skipped: 'Depósito pulado',
+  pending: 'Depósito voltou para pendente',
+};
+
 export default function Challenge() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
   const { user } = useAuth();
+  const [challenge, setChallenge] = useState<ChallengeRow | null>(null);
   const [deposits, setDeposits] = useState<Deposit[]>([]);
-  const [challengeId, setChallengeId] = useState<string | null>(null);
-  const [targetValue, setTargetValue] = useState(40000);
   const [loading, setLoading] = useState(true);
-  const [setupDialogOpen, setSetupDialogOpen] = useState(false);
-  const [customTarget, setCustomTarget] = useState('40000');
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [scheduleOpen, setScheduleOpen] = useState(false);
+  const [schedule, setSchedule] = useState({ start_date: '', deadline: '' });
+  const [accountsOpen, setAccountsOpen] = useState(false);
+  const [links, setLinks] = useState({ from_account_id: '', to_account_id: '' });
+  const [plannerOpen, setPlannerOpen] = useState(false);
+  const [historyDepositId, setHistoryDepositId] = useState<string | null>(null);
+  // Deposits with a change on the way, which can't be clicked again until it's saved
+  const [savingIds, setSavingIds] = useState<Set<string>>(new Set());
 
   useEffect(() => {
-    if (user) {
+    if (user && id) {
       fetchChallenge();
     }
-  }, [user]);
+  }, [user, id]);
+
+  const backToList = () => navigate({ pathname: '/challenge', search: getPeriodSearch(location.search) });
 
   const fetchChallenge = async () => {
     try {
-      const { data: challenge } = await supabase
+      const { data: challengeData } = await supabase
         .from('challenge_40k')
         .select('*')
+        .eq('id', id!)
         .eq('user_id', user!.id)
         .maybeSingle();
 
-      if (challenge) {
-        setChallengeId(challenge.id);
-        setTargetValue(Number(challenge.target_value));
-
-        const { data: depositsData } = await supabase
-          .from('challenge_deposits')
-          .select('*')
-          .eq('challenge_id', challenge.id)
-          .order('sequence_order', { ascending: true });
-
-        if (depositsData) {
-          setDeposits(depositsData as Deposit[]);
-        }
-      } else {
-        setSetupDialogOpen(true);
+      if (!challengeData) {
+        backToList();
+        return;
+      }
+
+      setChallenge(challengeData);
+
+      const { data: depositsData } = await supabase
+        .from('challenge_deposits')
+        .select('*')
+        .eq('challenge_id', challengeData.id)
+        .order('sequence_order', { ascending: true });
+
+      if (depositsData) {
+        setDeposits(depositsData as Deposit[]);
       }
     } catch (error) {
       console.error('Error fetching challenge:', error);
@@ -78,101 +145,227 @@ export default function Challenge() {
     }
   };
 
-  const createChallenge = async (target: number = 40000) => {
+  const toggleArchived = async () => {
+    if (!challenge) return;
+
     try {
-      setLoading(true);
+      const { error } = await supabase
+        .from('challenge_40k')
+        .update({ is_active: !challenge.is_active })
+        .eq('id', challenge.id);
 
-      // Create challenge
-      const { data: challenge, error: challengeError } = await supabase
+      if (error) throw error;
+      setChallenge({ ...challenge, is_active: !challenge.is_active });
+      toast.success(challenge.is_active ? 'Desafio arquivado!' : 'Desafio reativado!');
+    } catch (error) {
+      toast.error('Erro ao atualizar desafio');
+    }
+  };
+
+  const openSchedule = () => {
+    if (!challenge) return;
+    setSchedule({ start_date: challenge.start_date, deadline: challenge.deadline ?? '' });
+    setScheduleOpen(true);
+  };
+
+  const handleSaveSchedule = async () => {
+    if (!challenge) return;
+
+    if (!schedule.start_date) {
+      toast.error('Informe a data de início');
+      return;
+    }
+
+    if (schedule.deadline && schedule.deadline <= schedule.start_date) {
+      toast.error('A data final precisa ser depois do início');
+      return;
+    }
+
+    const update = { start_date: schedule.start_date, deadline: schedule.deadline || null };
+
+    try {
+      const { error } = await supabase
         .from('challenge_40k')
-        .insert({ 
-          user_id: user!.id, 
-          target_value: target 
-        })
-        .select()
-        .single();
-
-      if (challengeError) throw challengeError;
-
-      // Generate deposits: 1-200, then 200-1
-      const depositValues: number[] = [];
-      for (let i = 1; i <= 200; i++) {
-        depositValues.push(i);
-      }
-      for (let i = 200; i >= 1; i--) {
-        depositValues.push(i);
-      }
+        .update(update)
+        .eq('id', challenge.id);
 
-      // Adjust if target is exactly 40000 (total would be 40200)
-      if (target === 40000) {
-        // Remove the two 200s to get exactly 40000
-        const idx = depositValues.indexOf(200);
-        depositValues.splice(idx, 1);
-      }
+      if (error) throw error;
+      setChallenge({ ...challenge, ...update });
+      setScheduleOpen(false);
+      toast.success('Prazo atualizado!');
+    } catch (error) {
+      toast.error('Erro ao atualizar prazo');
+    }
+  };
 
-      const depositsToInsert = depositValues.map((value, index) => ({
-        challenge_id: challenge.id,
-        deposit_value: value,
-        sequence_order: index + 1,
-        status: 'pending' as const,
-      }));
+  const openAccounts = () => {
+    if (!challenge) return;
+    setLinks({ from_account_id: challenge.from_account_id ?? '', to_account_id: challenge.to_account_id ?? '' });
+    setAccountsOpen(true);
+  };
 
-      const { error: depositsError } = await supabase
-        .from('challenge_deposits')
-        .insert(depositsToInsert);
+  const handleSaveAccounts = async () => {
+    if (!challenge) return;
 
-      if (depositsError) throw depositsError;
+    if (!!links.from_account_id !== !!links.to_account_id) {
+      toast.error('Escolha as duas contas ou nenhuma');
+      return;
+    }
 
-      setChallengeId(challenge.id);
-      setTargetValue(target);
-      setDeposits(depositsToInsert.map((d, i) => ({ ...d, id: `temp-${i}` })));
-      setSetupDialogOpen(false);
+    if (links.from_account_id && links.from_account_id === links.to_account_id) {
+      toast.error('As contas de origem e destino devem ser diferentes');
+      return;
+    }
 
-      // Refetch to get proper IDs
-      fetchChallenge();
-      toast.success('Desafio criado com sucesso!');
+    const update = {
+      from_account_id: links.from_account_id || null,
+      to_account_id: links.to_account_id || null,
+    };
+
+    try {
+      const { error } = await supabase
+        .from('challenge_40k')
+        .update(update)
+        .eq('id', challenge.id);
+
+      if (error) throw error;
+      setChallenge({ ...challenge, ...update });
+      setAccountsOpen(false);
+      toast.success('Contas atualizadas!');
     } catch (error) {
-      console.error('Error creating challenge:', error);
-      toast.error('Erro ao criar desafio');
-    } finally {
-      setLoading(false);
+      toast.error('Erro ao atualizar contas');
     }
   };
 
-  const updateDepositStatus = async (depositId: string, status: 'completed' | 'skipped') => {
+  const handleDelete = async () => {
+    if (!challenge) return;
+
     try {
       const { error } = await supabase
-        .from('challenge_deposits')
-        .update({ 
-          status, 
-          completed_at: status === 'completed' ? new Date().toISOString() : null 
-        })
-        .eq('id', depositId);
+        .from('challenge_40k')
+        .delete()
+        .eq('id', challenge.id);
 
       if (error) throw error;
+      toast.success('Desafio excluído!');
+      backToList();
+    } catch (error) {
+      toast.error('Erro ao excluir desafio');
+    }
+  };
+
+  const setSaving = (ids: string[], saving: boolean) => {
+    setSavingIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (saving ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  // Puts the deposits back the way they were before the last action
+  const undoChanges = async (changes: DepositChange[]) => {
+    if (!challenge) return;
+
+    const ids = changes.map(change => change.before.id);
+    setSaving(ids, true);
+    try {
+      for (const { before, after } of changes) {
+        const update = await setDepositStatus(challenge, after, before.status, {
+          completedAt: before.completed_at ? new Date(before.completed_at) : undefined,
+          isUndo: true,
+        });
+
+        setDeposits(prev =>
+          prev.map(d => d.id === before.id ? { ...d, ...update } : d)
+        );
+      }
+      toast.success('Alteração desfeita');
+    } catch (error) {
+      toast.error('Erro ao desfazer alteração');
+      // The deposits may have changed elsewhere; show what is saved
+      fetchChallenge();
+    } finally {
+      setSaving(ids, false);
+    }
+  };
+
+  const showUndo = (message: string, changes: DepositChange[]) => {
+    toast.success(message, {
+      id: UNDO_TOAST_ID,
+      action: { label: 'Desfazer', onClick: () => undoChanges(changes) },
+    });
+  };
+
+  const updateDepositStatus = async (deposit: Deposit, status: DepositStatus) => {
+    if (!challenge || savingIds.has(deposit.id)) return;
+
+    setSaving([deposit.id], true);
+    try {
+      const update = await setDepositStatus(challenge, deposit, status);
 
       setDeposits(prev => 
-        prev.map(d => d.id === depositId ? { ...d, status } : d)
+        prev.map(d => d.id === deposit.id ? { ...d, ...update } : d)
       );
 
-      if (status === 'completed') {
-        toast.success('Depósito marcado como concluído!');
-      }
+      showUndo(
+        update.transfer_id ? 'Depósito concluído e transferido!' : STATUS_MESSAGES[status],
+        [{ before: deposit, after: { ...deposit, ...update } }]
+      );
     } catch (error) {
       toast.error('Erro ao atualizar depósito');
+      fetchChallenge();
+    } finally {
+      setSaving([deposit.id], false);
+    }
+  };
+
+  const handleCompleteSuggested = async (selected: Deposit[]) => {
+    if (!challenge) return;
+
+    const ids = selected.map(deposit => deposit.id);
+    setSaving(ids, true);
+    try {
+      const updates = await completeDeposits(challenge, selected);
+
+      setDeposits(prev =>
+        prev.map(d => updates.has(d.id) ? { ...d, ...updates.get(d.id)! } : d)
+      );
+      setPlannerOpen(false);
+      const completed = selected.filter(deposit => updates.has(deposit.id));
+      if (completed.length < selected.length) {
+        // Some had already changed elsewhere; show what is saved
+        fetchChallenge();
+      }
+      if (completed.length === 0) {
+        toast.error('Os depósitos escolhidos já não estavam pendentes');
+        return;
+      }
+      showUndo(
+        `${completed.length} depósitos concluídos!`,
+        completed.map(deposit => ({ before: deposit, after: { ...deposit, ...updates.get(deposit.id)! } }))
+      );
+    } catch (error) {
+      toast.error('Erro ao concluir depósitos');
+    } finally {
+      setSaving(ids, false);
     }
   };
 
+  const pendingDeposits = deposits.filter(d => d.status === 'pending');
+
   const completedValue = deposits
     .filter(d => d.status === 'completed')
     .reduce((sum, d) => sum + d.deposit_value, 0);
 
+  const targetValue = Number(challenge?.target_value ?? 0);
   const remainingValue = targetValue - completedValue;
   const progressPercent = targetValue > 0 ? (completedValue / targetValue) * 100 : 0;
   const completedCount = deposits.filter(d => d.status === 'completed').length;
   const skippedCount = deposits.filter(d => d.status === 'skipped').length;
+  const pace = challenge ? getChallengePace(challenge, deposits) : null;
+  const expectedPercent = pace?.expected != null && targetValue > 0 ? (pace.expected / targetValue) * 100 : null;
 
-  if (loading) {
+  if (loading || !challenge || !pace) {
     return (
       <AppLayout>
         <div className="flex items-center justify-center h-64">
@@ -188,11 +381,44 @@ export default function Challenge() {
         {/* Header */}
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <div>
+            <Link
+              to={{ pathname: '/challenge', search: getPeriodSearch(location.search) }}
+              className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Desafios
+            </Link>
             <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2">
               <Target className="w-8 h-8 text-accent" />
-              Desafio 40K
+              {challenge.name}
+              {!challenge.is_active && <Badge variant="outline">Arquivado</Badge>}
             </h1>
-            <p className="text-muted-foreground">Economize até {formatCurrency(targetValue)}</p>
+            <p className="text-muted-foreground flex flex-wrap items-center gap-x-2">
+              <span>Economize até {formatCurrency(targetValue)}</span>
+              <span>• {CHALLENGE_TEMPLATES[challenge.template as ChallengeTemplate]?.label ?? challenge.template}</span>
+              <span className="inline-flex items-center gap-1">
+                • <CalendarDays className="w-4 h-4" /> desde {formatDate(`${challenge.start_date}T00:00:00`)}
+                {challenge.deadline && ` até ${formatDate(`${challenge.deadline}T00:00:00`)}`}
+              </span>
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" className="gap-2" onClick={openAccounts}>
+              <ArrowLeftRight className="w-4 h-4" />
+              Contas
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={toggleArchived}>
+              {challenge.is_active ? <Archive className="w-4 h-4" /> : <ArchiveRestore className="w-4 h-4" />}
+              {challenge.is_active ? 'Arquivar' : 'Reativar'}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-destructive hover:text-destructive"
+              onClick={() => setDeleteOpen(true)}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
           </div>
         </div>
 
@@ -216,13 +442,23 @@ export default function Challenge() {
             </div>
 
             <div className="mt-6">
-              <div className="h-4 bg-muted rounded-full overflow-hidden">
-                <div 
-                  className="h-full gradient-gold rounded-full transition-all duration-1000 ease-out relative overflow-hidden"
-                  style={{ width: `${Math.min(progressPercent, 100)}%` }}
-                >
-                  <div className="absolute inset-0 shimmer" />
+              <div className="relative">
+                <div className="h-4 bg-muted rounded-full overflow-hidden">
+                  <div 
+                    className="h-full gradient-gold rounded-full transition-all duration-1000 ease-out relative overflow-hidden"
+                    style={{ width: `${Math.min(progressPercent, 100)}%` }}
+                  >
+                    <div className="absolute inset-0 shimmer" />
+                  </div>
                 </div>
+                {/* Where the plan expects the user to be today */}
+                {expectedPercent !== null && pace.status !== 'done' && (
+                  <div
+                    className="absolute -top-1 -bottom-1 w-0.5 bg-foreground/60 rounded-full"
+                    style={{ left: `${Math.min(expectedPercent, 100)}%` }}
+                    title={`Esperado hoje: ${formatCurrency(pace.expected!)}`}
+                  />
+                )}
               </div>
               <div className="flex justify-between mt-2 text-sm text-muted-foreground">
                 <span>{completedCount} depósitos feitos</span>
@@ -240,44 +476,77 @@ export default function Challenge() {
           </CardContent>
         </Card>
 
+        <ChallengePaceCard pace={pace} deadline={challenge.deadline} onEditSchedule={openSchedule} />
+
         {/* Deposit Grid */}
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
             <CardTitle className="text-lg">Depósitos</CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => setPlannerOpen(true)}
+              disabled={pendingDeposits.length === 0}
+            >
+              <Wand2 className="w-4 h-4" />
+              Sugerir depósitos
+            </Button>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-5 sm:grid-cols-8 md:grid-cols-10 lg:grid-cols-12 gap-2">
               {deposits.map((deposit) => (
-                <button
+                <Popover
                   key={deposit.id}
-                  onClick={async () => {
-                    if (deposit.status === 'pending') {
-                      updateDepositStatus(deposit.id, 'completed');
-                    } else if (deposit.status === 'completed') {
-                      updateDepositStatus(deposit.id, 'skipped');
-                    } else {
-                      // Reset to pending
-                      await supabase
-                        .from('challenge_deposits')
-                        .update({ status: 'pending', completed_at: null })
-                        .eq('id', deposit.id);
-                      setDeposits(prev => 
-                        prev.map(d => d.id === deposit.id ? { ...d, status: 'pending' } : d)
-                      );
-                    }
-                  }}
-                  className={cn(
-                    "relative aspect-square rounded-lg text-xs font-medium flex items-center justify-center transition-all duration-200 hover:scale-105",
-                    deposit.status === 'completed' && "bg-primary text-primary-foreground shadow-glow",
-                    deposit.status === 'skipped' && "bg-muted text-muted-foreground line-through opacity-50",
-                    deposit.status === 'pending' && "bg-secondary hover:bg-accent/20 text-secondary-foreground border border-border"
-                  )}
+                  open={historyDepositId === deposit.id}
+                  onOpenChange={(open) => setHistoryDepositId(open ? deposit.id : null)}
                 >
-                  {deposit.deposit_value}
-                  {deposit.status === 'completed' && (
-                    <CheckCircle2 className="absolute -top-1 -right-1 w-3 h-3 text-primary-foreground bg-primary rounded-full" />
-                  )}
-                </button>
+                  <div className="relative">
+                    <button
+                      disabled={savingIds.has(deposit.id)}
+                      onClick={() => {
+                        if (deposit.status === 'pending') {
+                          updateDepositStatus(deposit, 'completed');
+                        } else if (deposit.status === 'completed') {
+                          updateDepositStatus(deposit, 'skipped');
+                        } else {
+                          // Reset to pending
+                          updateDepositStatus(deposit, 'pending');
+                        }
+                      }}
+                      onContextMenu={(e) => {
+                        // Shortcut to the history button
+                        e.preventDefault();
+                        setHistoryDepositId(deposit.id);
+                      }}
+                      className={cn(
+                        "relative w-full aspect-square rounded-lg text-xs font-medium flex items-center justify-center transition-all duration-200 hover:scale-105 disabled:pointer-events-none disabled:opacity-60",
+                        deposit.status === 'completed' && "bg-primary text-primary-foreground shadow-glow",
+                        deposit.status === 'skipped' && "bg-muted text-muted-foreground line-through opacity-50",
+                        deposit.status === 'pending' && "bg-secondary hover:bg-accent/20 text-secondary-foreground border border-border"
+                      )}
+                    >
+                      {deposit.deposit_value}
+                      {deposit.status === 'completed' && (
+                        <CheckCircle2 className="absolute -top-1 -right-1 w-3 h-3 text-primary-foreground bg-primary rounded-full" />
+                      )}
+                    </button>
+                    <PopoverTrigger asChild>
+                      <button
+                        aria-label={`Histórico do depósito ${deposit.sequence_order}`}
+                        className="absolute -bottom-1 -right-1 w-4 h-4 rounded-full bg-background border border-border text-muted-foreground flex items-center justify-center hover:text-foreground"
+                      >
+                        <History className="w-2.5 h-2.5" />
+                      </button>
+                    </PopoverTrigger>
+                  </div>
+                  <PopoverContent className="w-64">
+                    <p className="font-medium mb-3">
+                      Depósito {deposit.sequence_order} • {formatCurrency(deposit.deposit_value)}
+                    </p>
+                    <DepositEvents depositId={deposit.id} />
+                  </PopoverContent>
+                </Popover>
               ))}
             </div>
 
@@ -295,52 +564,102 @@ export default function Challenge() {
                 <span>Pulado</span>
               </div>
             </div>
+            <p className="text-center text-xs text-muted-foreground mt-3">
+              Toque no ícone de histórico (ou clique com o botão direito) em um depósito para ver suas alterações
+            </p>
           </CardContent>
         </Card>
 
-        {/* Setup Dialog */}
-        <Dialog open={setupDialogOpen} onOpenChange={setSetupDialogOpen}>
+        {/* Schedule Dialog */}
+        <Dialog open={scheduleOpen} onOpenChange={setScheduleOpen}>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle className="flex items-center gap-2">
-                <Target className="w-5 h-5 text-accent" />
-                Iniciar Desafio 40K
-              </DialogTitle>
+              <DialogTitle>Prazo do desafio</DialogTitle>
             </DialogHeader>
             <div className="space-y-4 pt-4">
-              <p className="text-muted-foreground text-sm">
-                O desafio consiste em depositar valores de R$1 a R$200 e depois de R$200 a R$1. 
-                Escolha sua meta:
-              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Início</Label>
+                  <Input
+                    type="date"
+                    value={schedule.start_date}
+                    onChange={(e) => setSchedule({ ...schedule, start_date: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Data final (opcional)</Label>
+                  <Input
+                    type="date"
+                    value={schedule.deadline}
+                    onChange={(e) => setSchedule({ ...schedule, deadline: e.target.value })}
+                  />
+                </div>
+              </div>
+              <Button onClick={handleSaveSchedule} className="w-full">
+                Salvar
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
 
-              <div className="space-y-3">
-                <Button 
-                  onClick={() => createChallenge(40000)} 
-                  className="w-full justify-start gap-3"
-                  variant="outline"
-                >
-                  <Target className="w-5 h-5 text-accent" />
-                  <div className="text-left">
-                    <p className="font-medium">Meta de R$ 40.000</p>
-                    <p className="text-xs text-muted-foreground">Ajustado para exatamente 40K</p>
-                  </div>
-                </Button>
+        <DepositHistory deposits={deposits} />
 
-                <Button 
-                  onClick={() => createChallenge(40200)} 
-                  className="w-full justify-start gap-3"
-                  variant="outline"
-                >
-                  <Trophy className="w-5 h-5 text-primary" />
-                  <div className="text-left">
-                    <p className="font-medium">Desafio Completo R$ 40.200</p>
-                    <p className="text-xs text-muted-foreground">Todos os depósitos de 1-200 e 200-1</p>
-                  </div>
-                </Button>
+        <DepositPlanner
+          open={plannerOpen}
+          onOpenChange={setPlannerOpen}
+          deposits={pendingDeposits}
+          onComplete={handleCompleteSuggested}
+        />
+
+        {/* Accounts Dialog */}
+        <Dialog open={accountsOpen} onOpenChange={setAccountsOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Contas do desafio</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4 pt-4">
+              <p className="text-sm text-muted-foreground">
+                Cada depósito concluído vira uma transferência entre estas contas, e volta atrás se o depósito for desfeito.
+                Depósitos já concluídos não são alterados.
+              </p>
+              <div className="space-y-2">
+                <Label>Sai de</Label>
+                <AccountSelect
+                  value={links.from_account_id}
+                  onValueChange={(value) => setLinks({ ...links, from_account_id: value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Guardar em</Label>
+                <AccountSelect
+                  value={links.to_account_id}
+                  onValueChange={(value) => setLinks({ ...links, to_account_id: value })}
+                />
               </div>
+              <Button onClick={handleSaveAccounts} className="w-full">
+                Salvar
+              </Button>
             </div>
           </DialogContent>
         </Dialog>
+
+        {/* Delete Confirmation */}
+        <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Excluir desafio?</AlertDialogTitle>
+              <AlertDialogDescription>
+                O desafio e todo o histórico de depósitos serão excluídos. Para guardá-lo, arquive em vez de excluir.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">
+                Excluir
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </AppLayout>
   );
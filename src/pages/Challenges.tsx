@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { getPeriodSearch } from '@/hooks/usePeriod';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { ChallengeSetupDialog } from '@/components/challenge/ChallengeSetupDialog';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Target,
+  Plus,
+  Loader2,
+  Trophy,
+  CalendarDays
+} from 'lucide-react';
+import { formatCurrency, formatDate, formatPercent } from '@/lib/formatters';
+import {
+  CHALLENGE_TEMPLATES,
+  ChallengePace,
+  ChallengePlan,
+  ChallengeTemplate,
+  createChallenge,
+  fetchCompletedDeposits,
+  getChallengePace,
+} from '@/lib/challenge';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+interface ChallengeSummary extends Tables<'challenge_40k'> {
+  pace: ChallengePace;
+}
+
+export default function Challenges() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useAuth();
+  const [challenges, setChallenges] = useState<ChallengeSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [setupDialogOpen, setSetupDialogOpen] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchChallenges();
+    }
+  }, [user]);
+
+  const fetchChallenges = async () => {
+    try {
+      const { data: challengesData } = await supabase
+        .from('challenge_40k')
+        .select('*')
+        .eq('user_id', user!.id)
+        .order('created_at');
+
+      if (!challengesData) return;
+
+      const deposits = await fetchCompletedDeposits(challengesData.map(c => c.id));
+
+      setChallenges(challengesData.map(c => ({
+        ...c,
+        pace: getChallengePace(c, deposits.filter(d => d.challenge_id === c.id)),
+      })));
+    } catch (error) {
+      console.error('Error fetching challenges:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (plan: ChallengePlan) => {
+    try {
+      const id = await createChallenge(user!.id, plan);
+      toast.success('Desafio criado com sucesso!');
+      navigate({ pathname: `/challenge/${id}`, search: getPeriodSearch(location.search) });
+    } catch (error) {
+      console.error('Error creating challenge:', error);
+      toast.error('Erro ao criar desafio');
+    }
+  };
+
+  const active = challenges.filter(c => c.is_active);
+  const archived = challenges.filter(c => !c.is_active);
+  const totalSaved = active.reduce((sum, c) => sum + c.pace.completed, 0);
+
+  const renderCard = (challenge: ChallengeSummary) => {
+    const target = Number(challenge.target_value);
+    const percent = target > 0 ? (challenge.pace.completed / target) * 100 : 0;
+    const late = challenge.is_active && (challenge.pace.status === 'behind' || challenge.pace.status === 'overdue');
+
+    return (
+      <Link
+        key={challenge.id}
+        to={{ pathname: `/challenge/${challenge.id}`, search: getPeriodSearch(location.search) }}
+      >
+        <Card className={cn("h-full hover:shadow-soft transition-all", !challenge.is_active && "opacity-60")}>
+          <CardContent className="pt-6 space-y-4">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <h3 className="font-semibold truncate">{challenge.name}</h3>
+                <p className="text-xs text-muted-foreground">
+                  {CHALLENGE_TEMPLATES[challenge.template as ChallengeTemplate]?.label ?? challenge.template}
+                </p>
+                {late && (
+                  <Badge variant="outline" className="mt-2 bg-destructive/10 text-destructive border-destructive/20">
+                    Atrasado
+                  </Badge>
+                )}
+              </div>
+              {percent >= 100
+                ? <Trophy className="w-5 h-5 text-accent shrink-0" />
+                : <span className="text-lg font-bold gradient-text">{formatPercent(percent)}</span>}
+            </div>
+
+            <div className="h-2 bg-muted rounded-full overflow-hidden">
+              <div
+                className="h-full gradient-gold rounded-full transition-all duration-1000 ease-out"
+                style={{ width: `${Math.min(percent, 100)}%` }}
+              />
+            </div>
+
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                <strong>{formatCurrency(challenge.pace.completed)}</strong>
+                <span className="text-muted-foreground"> de {formatCurrency(target)}</span>
+              </span>
+              {challenge.deadline && (
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  <CalendarDays className="w-3 h-3" />
+                  {formatDate(`${challenge.deadline}T00:00:00`)}
+                </span>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </Link>
+    );
+  };
+
+  if (loading) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2">
+              <Target className="w-8 h-8 text-accent" />
+              Desafios
+            </h1>
+            <p className="text-muted-foreground">
+              {active.length > 0
+                ? `${formatCurrency(totalSaved)} guardados em ${active.length} ${active.length === 1 ? 'meta' : 'metas'}`
+                : 'Crie metas de economia com um plano de depósitos'}
+            </p>
+          </div>
+          <Button className="gap-2" onClick={() => setSetupDialogOpen(true)}>
+            <Plus className="w-4 h-4" />
+            Novo Desafio
+          </Button>
+        </div>
+
+        {challenges.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <Target className="w-12 h-12 text-muted-foreground mb-4" />
+              <h3 className="font-semibold mb-2">Nenhum desafio</h3>
+              <p className="text-muted-foreground text-sm mb-4">
+                Reserva de emergência, viagem, carro: cada meta com seu próprio plano
+              </p>
+              <Button onClick={() => setSetupDialogOpen(true)} className="gap-2">
+                <Plus className="w-4 h-4" />
+                Criar Primeiro Desafio
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {active.length > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {active.map(renderCard)}
+              </div>
+            )}
+
+            {archived.length > 0 && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <h2 className="font-semibold">Arquivados</h2>
+                  <Badge variant="secondary">{archived.length}</Badge>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {archived.map(renderCard)}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        <ChallengeSetupDialog
+          open={setupDialogOpen}
+          onOpenChange={setSetupDialogOpen}
+          onCreate={handleCreate}
+        />
+      </div>
+    </AppLayout>
+  );
+}
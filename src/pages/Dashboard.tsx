@@ -1,28 +1,37 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { usePeriod } from '@/hooks/usePeriod';
 import { supabase } from '@/integrations/supabase/client';
 import { AppLayout } from '@/components/layout/AppLayout';
+import { PeriodSelector } from '@/components/period/PeriodSelector';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+import { IncomeDialog } from '@/components/income/IncomeDialog';
 import { 
   Wallet, 
   TrendingDown, 
   PiggyBank, 
   Target,
   Plus,
-  DollarSign
+  CalendarClock,
+  Landmark
 } from 'lucide-react';
-import { formatCurrency, formatPercent } from '@/lib/formatters';
-import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip } from 'recharts';
-import { toast } from 'sonner';
+import { formatCurrency, formatDate, formatPercent } from '@/lib/formatters';
+import { getLastMonths, toISODate, toMonthKey } from '@/lib/dates';
+import { Occurrence, getUpcomingOccurrences } from '@/lib/recurrence';
+import { sumIncome } from '@/lib/income';
+import { fetchAccountMovements, getAccountBalance, getAccountMovements } from '@/lib/accounts';
+import { fetchCompletedDeposits } from '@/lib/challenge';
+import { fetchAllPages } from '@/lib/paging';
+import { addDays, endOfMonth, parseISO } from 'date-fns';
+import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend } from 'recharts';
 import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from '@/components/ui/dialog';
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 
 interface Category {
   id: string;
@@ -48,36 +57,70 @@ interface ChallengeProgress {
   target: number;
 }
 
+interface AccountBalance {
+  id: string;
+  name: string;
+  color: string;
+  balance: number;
+}
+
+interface MonthlyTotal {
+  month: string;
+  expenses: number;
+  income: number;
+}
+
+const HISTORY_OPTIONS = [3, 6, 12, 24];
+
 export default function Dashboard() {
   const { user } = useAuth();
+  const { period } = usePeriod();
   const [income, setIncome] = useState<number>(0);
   const [totalExpenses, setTotalExpenses] = useState<number>(0);
   const [categories, setCategories] = useState<Category[]>([]);
   const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [challengeProgress, setChallengeProgress] = useState<ChallengeProgress>({ current: 0, target: 40000 });
-  const [newIncome, setNewIncome] = useState('');
+  const [challengeProgress, setChallengeProgress] = useState<ChallengeProgress>({ current: 0, target: 0 });
+  const [saved, setSaved] = useState(0);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [historyMonths, setHistoryMonths] = useState(6);
+  const [history, setHistory] = useState<MonthlyTotal[]>([]);
+  const [upcoming, setUpcoming] = useState<Occurrence[]>([]);
+  const [accountBalances, setAccountBalances] = useState<AccountBalance[]>([]);
 
   useEffect(() => {
     if (user) {
       fetchData();
     }
+  }, [user, period.from, period.to]);
+
+  useEffect(() => {
+    if (user) {
+      fetchHistory();
+    }
+  }, [user, historyMonths, period.to]);
+
+  useEffect(() => {
+    if (user) {
+      fetchUpcoming();
+      fetchAccounts();
+    }
   }, [user]);
 
   const fetchData = async () => {
     try {
-      // Fetch payment/income
-      const { data: payments } = await supabase
-        .from('payments')
-        .select('*')
-        .eq('user_id', user!.id)
-        .order('created_at', { ascending: false })
-        .limit(1);
-
-      if (payments && payments.length > 0) {
-        setIncome(Number(payments[0].amount));
-      }
+      // Fetch income for the selected period, every page of it
+      const payments = await fetchAllPages((start, end) =>
+        supabase
+          .from('payments')
+          .select('id, amount')
+          .eq('user_id', user!.id)
+          .gte('payment_date', period.from)
+          .lte('payment_date', period.to)
+          .order('id')
+          .range(start, end)
+      );
+      setIncome(sumIncome(payments));
 
       // Fetch categories
       const { data: categoriesData } = await supabase
@@ -89,39 +132,48 @@ export default function Dashboard() {
         setCategories(categoriesData);
       }
 
-      // Fetch expenses for current month
-      const startOfMonth = new Date();
-      startOfMonth.setDate(1);
-      startOfMonth.setHours(0, 0, 0, 0);
-
-      const { data: expensesData } = await supabase
-        .from('expenses')
-        .select('*')
-        .eq('user_id', user!.id)
-        .gte('expense_date', startOfMonth.toISOString().split('T')[0]);
-
-      if (expensesData) {
-        setExpenses(expensesData);
-        const total = expensesData.reduce((sum, exp) => sum + Number(exp.amount), 0);
-        setTotalExpenses(total);
-      }
-
-      // Fetch challenge progress
-      const { data: challenge } = await supabase
+      // Fetch expenses for the selected period
+      const expensesData = await fetchAllPages((start, end) =>
+        supabase
+          .from('expenses')
+          .select('*')
+          .eq('user_id', user!.id)
+          .gte('expense_date', period.from)
+          .lte('expense_date', period.to)
+          .order('id')
+          .range(start, end)
+      );
+      setExpenses(expensesData);
+      setTotalExpenses(expensesData.reduce((sum, exp) => sum + Number(exp.amount), 0));
+
+      // Fetch progress of the active challenges and what was saved in the period
+      const { data: challenges } = await supabase
         .from('challenge_40k')
-        .select('id, target_value')
-        .eq('user_id', user!.id)
-        .maybeSingle();
-
-      if (challenge) {
-        const { data: deposits } = await supabase
-          .from('challenge_deposits')
-          .select('deposit_value')
-          .eq('challenge_id', challenge.id)
-          .eq('status', 'completed');
+        .select('id, target_value, is_active')
+        .eq('user_id', user!.id);
 
-        const current = deposits?.reduce((sum, d) => sum + Number(d.deposit_value), 0) || 0;
-        setChallengeProgress({ current, target: Number(challenge.target_value) });
+      if (challenges && challenges.length > 0) {
+        const deposits = await fetchCompletedDeposits(challenges.map(c => c.id));
+
+        const activeIds = new Set(challenges.filter(c => c.is_active).map(c => c.id));
+        const current = deposits
+          .filter(d => activeIds.has(d.challenge_id))
+          .reduce((sum, d) => sum + Number(d.deposit_value), 0);
+        const target = challenges
+          .filter(c => c.is_active)
+          .reduce((sum, c) => sum + Number(c.target_value), 0);
+        setChallengeProgress({ current, target });
+
+        // completed_at is a timestamp, so compare it by the local day
+        const savedInPeriod = deposits.filter(d => {
+          if (!d.completed_at) return false;
+          const day = toISODate(new Date(d.completed_at));
+          return day >= period.from && day <= period.to;
+        });
+        setSaved(savedInPeriod.reduce((sum, d) => sum + Number(d.deposit_value), 0));
+      } else {
+        setChallengeProgress({ current: 0, target: 0 });
+        setSaved(0);
       }
     } catch (error) {
       console.error('Error fetching data:', error);
@@ -130,30 +182,103 @@ export default function Dashboard() {
     }
   };
 
-  const handleSaveIncome = async () => {
-    const amount = parseFloat(newIncome);
-    if (isNaN(amount) || amount <= 0) {
-      toast.error('Informe um valor válido');
-      return;
+  const fetchHistory = async () => {
+    try {
+      const reference = parseISO(period.to);
+      const months = getLastMonths(historyMonths, reference);
+      const from = toISODate(months[0].start);
+      const to = toISODate(endOfMonth(reference));
+
+      // Two years of movements easily pass the 1000 rows a request returns
+      const [expensesData, paymentsData] = await Promise.all([
+        fetchAllPages((start, end) =>
+          supabase
+            .from('expenses')
+            .select('id, amount, expense_date')
+            .eq('user_id', user!.id)
+            .gte('expense_date', from)
+            .lte('expense_date', to)
+            .order('id')
+            .range(start, end)
+        ),
+        fetchAllPages((start, end) =>
+          supabase
+            .from('payments')
+            .select('id, amount, payment_date')
+            .eq('user_id', user!.id)
+            .gte('payment_date', from)
+            .lte('payment_date', to)
+            .order('id')
+            .range(start, end)
+        ),
+      ]);
+
+      const totals = new Map(months.map(m => [m.key, { expenses: 0, income: 0 }]));
+
+      expensesData.forEach(exp => {
+        const bucket = totals.get(toMonthKey(exp.expense_date));
+        if (bucket) bucket.expenses += Number(exp.amount);
+      });
+
+      paymentsData.forEach(payment => {
+        const bucket = totals.get(toMonthKey(payment.payment_date));
+        if (bucket) bucket.income += Number(payment.amount);
+      });
+
+      setHistory(months.map(m => ({ month: m.label, ...totals.get(m.key)! })));
+    } catch (error) {
+      console.error('Error fetching history:', error);
     }
+  };
 
+  // Recurring charges still due until the end of the current month
+  const fetchUpcoming = async () => {
     try {
-      const { error } = await supabase
-        .from('payments')
-        .insert({ user_id: user!.id, amount });
-
-      if (error) throw error;
+      const { data: rules } = await supabase
+        .from('recurring_expenses')
+        .select('*')
+        .eq('user_id', user!.id)
+        .eq('is_active', true);
+
+      if (rules) {
+        const today = new Date();
+        setUpcoming(getUpcomingOccurrences(
+          rules,
+          toISODate(addDays(today, 1)),
+          toISODate(endOfMonth(today))
+        ));
+      }
+    } catch (error) {
+      console.error('Error fetching upcoming charges:', error);
+    }
+  };
 
-      setIncome(amount);
-      setNewIncome('');
-      setIsDialogOpen(false);
-      toast.success('Renda mensal atualizada!');
+  const fetchAccounts = async () => {
+    try {
+      const { data: accounts } = await supabase
+        .from('accounts')
+        .select('*')
+        .eq('user_id', user!.id)
+        .eq('is_archived', false)
+        .order('created_at');
+
+      if (accounts && accounts.length > 0) {
+        const movements = await fetchAccountMovements(user!.id);
+        const names = new Map(accounts.map(a => [a.id, a.name]));
+        setAccountBalances(accounts.map(account => ({
+          id: account.id,
+          name: account.name,
+          color: account.color,
+          balance: getAccountBalance(account, getAccountMovements(account, movements, names)),
+        })));
+      }
     } catch (error) {
-      toast.error('Erro ao salvar renda');
+      console.error('Error fetching account balances:', error);
     }
   };
 
-  const balance = income - totalExpenses;
+  // Money moved into the challenges is no longer available to spend
+  const balance = income - totalExpenses - saved;
   const balancePercent = income > 0 ? (balance / income) * 100 : 0;
 
   // Prepare pie chart data
@@ -168,16 +293,6 @@ export default function Dashboard() {
     };
   }).filter(item => item.value > 0);
 
-  // Prepare bar chart data (last 6 months mock)
-  const barData = [
-    { month: 'Jul', value: totalExpenses * 0.8 },
-    { month: 'Ago', value: totalExpenses * 0.9 },
-    { month: 'Set', value: totalExpenses * 1.1 },
-    { month: 'Out', value: totalExpenses * 0.95 },
-    { month: 'Nov', value: totalExpenses * 1.05 },
-    { month: 'Dez', value: totalExpenses },
-  ];
-
   const challengePercent = challengeProgress.target > 0 
     ? (challengeProgress.current / challengeProgress.target) * 100 
     : 0;
@@ -191,34 +306,13 @@ export default function Dashboard() {
             <h1 className="text-2xl sm:text-3xl font-bold">Dashboard</h1>
             <p className="text-muted-foreground">Visão geral das suas finanças</p>
           </div>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button className="gap-2">
-                <Plus className="w-4 h-4" />
-                Definir Renda
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Renda Mensal</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4 pt-4">
-                <div className="relative">
-                  <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                  <Input
-                    type="number"
-                    placeholder="0,00"
-                    value={newIncome}
-                    onChange={(e) => setNewIncome(e.target.value)}
-                    className="pl-10"
-                  />
-                </div>
-                <Button onClick={handleSaveIncome} className="w-full">
-                  Salvar
-                </Button>
-              </div>
-            </DialogContent>
-          </Dialog>
+          <div className="flex flex-wrap items-center gap-2">
+            <PeriodSelector />
+            <Button className="gap-2" onClick={() => setIsDialogOpen(true)}>
+              <Plus className="w-4 h-4" />
+              Nova Receita
+            </Button>
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -227,7 +321,7 @@ export default function Dashboard() {
             <CardContent className="pt-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-muted-foreground">Renda Mensal</p>
+                  <p className="text-sm text-muted-foreground">Receitas</p>
                   <p className="text-2xl font-bold text-primary">{formatCurrency(income)}</p>
                 </div>
                 <div className="w-12 h-12 rounded-xl bg-primary/20 flex items-center justify-center">
@@ -255,10 +349,13 @@ export default function Dashboard() {
             <CardContent className="pt-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-muted-foreground">Saldo</p>
+                  <p className="text-sm text-muted-foreground">Saldo do Período</p>
                   <p className={`text-2xl font-bold ${balance >= 0 ? 'text-primary' : 'text-destructive'}`}>
                     {formatCurrency(balance)}
                   </p>
+                  {saved > 0 && (
+                    <p className="text-xs text-muted-foreground">{formatCurrency(saved)} guardados nos desafios</p>
+                  )}
                 </div>
                 <div className={`w-12 h-12 rounded-xl ${balance >= 0 ? 'bg-primary/20' : 'bg-destructive/20'} flex items-center justify-center`}>
                   <PiggyBank className={`w-6 h-6 ${balance >= 0 ? 'text-primary' : 'text-destructive'}`} />
@@ -271,7 +368,7 @@ export default function Dashboard() {
             <CardContent className="pt-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-muted-foreground">Desafio 40K</p>
+                  <p className="text-sm text-muted-foreground">Desafios</p>
                   <p className="text-2xl font-bold text-accent">{formatPercent(challengePercent)}</p>
                 </div>
                 <div className="w-12 h-12 rounded-xl bg-accent/20 flex items-center justify-center">
@@ -339,13 +436,28 @@ export default function Dashboard() {
 
           {/* Bar Chart */}
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle className="text-lg">Comparação Mensal</CardTitle>
+              <Select
+                value={historyMonths.toString()}
+                onValueChange={(value) => setHistoryMonths(Number(value))}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HISTORY_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={option.toString()}>
+                      Últimos {option} meses
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </CardHeader>
             <CardContent>
               <div className="h-64">
                 <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={barData}>
+                  <BarChart data={history}>
                     <XAxis 
                       dataKey="month" 
                       axisLine={false}
@@ -366,11 +478,19 @@ export default function Dashboard() {
                         borderRadius: '8px',
                       }}
                     />
+                    <Legend />
                     <Bar 
-                      dataKey="value" 
+                      dataKey="income" 
+                      name="Receitas"
                       fill="hsl(var(--primary))" 
                       radius={[4, 4, 0, 0]}
                     />
+                    <Bar 
+                      dataKey="expenses" 
+                      name="Despesas"
+                      fill="hsl(var(--destructive))" 
+                      radius={[4, 4, 0, 0]}
+                    />
                   </BarChart>
                 </ResponsiveContainer>
               </div>
@@ -378,12 +498,78 @@ export default function Dashboard() {
           </Card>
         </div>
 
+        {/* Account Balances */}
+        {accountBalances.length > 0 && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Landmark className="w-5 h-5 text-primary" />
+                Contas
+              </CardTitle>
+              <span className="text-sm text-muted-foreground">
+                Total: {formatCurrency(accountBalances.reduce((sum, a) => sum + a.balance, 0))}
+              </span>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                {accountBalances.map((account) => (
+                  <div
+                    key={account.id}
+                    className="flex items-center justify-between gap-3 rounded-xl border border-border p-3"
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: account.color }} />
+                      <span className="font-medium truncate">{account.name}</span>
+                    </div>
+                    <span className={`font-semibold ${account.balance < 0 ? 'text-destructive' : ''}`}>
+                      {formatCurrency(account.balance)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Upcoming Recurring Charges */}
+        {upcoming.length > 0 && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <CalendarClock className="w-5 h-5 text-primary" />
+                Próximas Cobranças
+              </CardTitle>
+              <span className="text-sm text-muted-foreground">
+                {formatCurrency(upcoming.reduce((sum, o) => sum + Number(o.rule.amount), 0))} até o fim do mês
+              </span>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y divide-border">
+                {upcoming.map((occurrence) => (
+                  <div
+                    key={`${occurrence.rule.id}-${occurrence.date}`}
+                    className="flex items-center justify-between py-2 text-sm"
+                  >
+                    <div className="flex items-center gap-3">
+                      <span className="text-muted-foreground w-24">
+                        {formatDate(`${occurrence.date}T00:00:00`)}
+                      </span>
+                      <span className="font-medium">{occurrence.rule.description}</span>
+                    </div>
+                    <span className="font-semibold">{formatCurrency(Number(occurrence.rule.amount))}</span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Challenge Progress */}
         <Card className="bg-gradient-to-r from-accent/5 via-transparent to-primary/5">
           <CardContent className="pt-6">
             <div className="flex flex-col sm:flex-row sm:items-center gap-4">
               <div className="flex-1">
-                <h3 className="font-semibold text-lg mb-2">Progresso do Desafio 40K</h3>
+                <h3 className="font-semibold text-lg mb-2">Progresso dos Desafios</h3>
                 <div className="flex items-center gap-4 text-sm text-muted-foreground mb-3">
                   <span>Atual: <strong className="text-primary">{formatCurrency(challengeProgress.current)}</strong></span>
                   <span>Meta: <strong>{formatCurrency(challengeProgress.target)}</strong></span>
@@ -402,6 +588,15 @@ export default function Dashboard() {
             </div>
           </CardContent>
         </Card>
+
+        <IncomeDialog
+          open={isDialogOpen}
+          onOpenChange={setIsDialogOpen}
+          onSaved={() => {
+            fetchData();
+            fetchHistory();
+          }}
+        />
       </div>
     </AppLayout>
   );
@@ -0,0 +1,271 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { usePeriod } from '@/hooks/usePeriod';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { PeriodSelector } from '@/components/period/PeriodSelector';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Input } from '@/components/ui/input';
+import { Database, Download, Loader2, Upload, FileJson } from 'lucide-react';
+import { EXPORT_TABLES, ExportFormat, ExportTable, exportData, fetchExportData } from '@/lib/export';
+import { Backup, RestoreSummary, parseBackup, restoreBackup } from '@/lib/backup';
+import { readTextFile } from '@/lib/csv';
+import { formatDate } from '@/lib/formatters';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'xlsx', label: 'Planilha (XLSX)', description: 'Uma aba por tabela' },
+  { value: 'csv', label: 'CSV', description: 'Um arquivo por tabela' },
+  { value: 'json', label: 'Backup JSON', description: 'Documento único para restaurar depois' },
+];
+
+export default function Data() {
+  const { user } = useAuth();
+  const { period } = usePeriod();
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [tables, setTables] = useState<ExportTable[]>(EXPORT_TABLES.map(t => t.key));
+  const [exporting, setExporting] = useState(false);
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [backupName, setBackupName] = useState('');
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [restoreSummary, setRestoreSummary] = useState<RestoreSummary | null>(null);
+
+  const toggleTable = (table: ExportTable, checked: boolean) => {
+    setTables(prev => checked ? [...prev, table] : prev.filter(t => t !== table));
+  };
+
+  const handleExport = async () => {
+    if (tables.length === 0) {
+      toast.error('Selecione ao menos uma tabela');
+      return;
+    }
+
+    setExporting(true);
+
+    try {
+      const data = await fetchExportData(user!.id, period.from, period.to);
+      await exportData(data, format, tables, { from: period.from, to: period.to });
+      toast.success('Exportação concluída!');
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error('Erro ao exportar dados');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleBackupFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setBackup(parseBackup(await readTextFile(file)));
+      setBackupName(file.name);
+      setRestoreSummary(null);
+    } catch (error) {
+      setBackup(null);
+      toast.error(error instanceof Error ? error.message : 'Não foi possível ler o backup');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    setConfirmRestore(false);
+    setRestoring(true);
+
+    try {
+      const summary = await restoreBackup(user!.id, backup);
+      setRestoreSummary(summary);
+      setBackup(null);
+      toast.success('Backup restaurado!');
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast.error('Erro ao restaurar backup. Os itens já gravados foram mantidos; restaure o mesmo arquivo de novo para concluir.');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2">
+              <Database className="w-8 h-8 text-primary" />
+              Dados
+            </h1>
+            <p className="text-muted-foreground">Exporte e restaure suas informações financeiras</p>
+          </div>
+          <PeriodSelector />
+        </div>
+
+        {/* Export */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Exportar</CardTitle>
+            <CardDescription>
+              Despesas e receitas são filtradas pelo período selecionado ({period.label})
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-3">
+              <Label>Formato</Label>
+              <RadioGroup
+                value={format}
+                onValueChange={(value) => setFormat(value as ExportFormat)}
+                className="grid-cols-1 sm:grid-cols-3"
+              >
+                {FORMATS.map((option) => (
+                  <Label
+                    key={option.value}
+                    htmlFor={`format-${option.value}`}
+                    className="flex items-start gap-3 rounded-xl border border-border p-4 cursor-pointer hover:bg-muted/50"
+                  >
+                    <RadioGroupItem value={option.value} id={`format-${option.value}`} className="mt-0.5" />
+                    <div>
+                      <p className="font-medium">{option.label}</p>
+                      <p className="text-xs text-muted-foreground font-normal">{option.description}</p>
+                    </div>
+                  </Label>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Tabelas</Label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {EXPORT_TABLES.map((table) => (
+                  <div key={table.key} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`table-${table.key}`}
+                      checked={tables.includes(table.key)}
+                      onCheckedChange={(checked) => toggleTable(table.key, checked === true)}
+                    />
+                    <Label htmlFor={`table-${table.key}`} className="font-normal">
+                      {table.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              {format === 'json' && (
+                <p className="text-xs text-muted-foreground">
+                  O backup leva também as categorias, contas e desafios a que as tabelas escolhidas se referem
+                </p>
+              )}
+            </div>
+
+            <Button onClick={handleExport} disabled={exporting} className="gap-2">
+              {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              Exportar
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Restore */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Restaurar Backup</CardTitle>
+            <CardDescription>
+              Recria categorias, contas, despesas, receitas e desafios a partir de um backup JSON.
+              Itens que ainda existem nesta conta são mantidos.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <label className="flex items-center justify-center gap-2 border-2 border-dashed border-border rounded-xl py-6 cursor-pointer hover:bg-muted/50 transition-colors">
+              <Upload className="w-5 h-5 text-muted-foreground" />
+              <span className="text-sm text-muted-foreground">Escolher arquivo .json</span>
+              <Input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                disabled={restoring}
+                onChange={(e) => {
+                  handleBackupFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+
+            {backup && (
+              <div className="rounded-xl border border-border p-4 space-y-3">
+                <div className="flex items-center gap-2 font-medium">
+                  <FileJson className="w-4 h-4 text-primary" />
+                  {backupName}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Exportado em {formatDate(backup.exported_at)} • período {formatDate(`${backup.period.from}T00:00:00`)} a {formatDate(`${backup.period.to}T00:00:00`)}
+                </p>
+                <ul className="text-sm grid grid-cols-2 sm:grid-cols-3 gap-1">
+                  <li>{backup.data.categories.length} categorias</li>
+                  <li>{backup.data.category_budgets.length} orçamentos</li>
+                  <li>{backup.data.category_rules.length} regras</li>
+                  <li>{backup.data.accounts.length} contas</li>
+                  <li>{backup.data.recurring_expenses.length} recorrentes</li>
+                  <li>{backup.data.installment_purchases.length} compras parceladas</li>
+                  <li>{backup.data.expenses.length} despesas</li>
+                  <li>{backup.data.payments.length} receitas</li>
+                  <li>{backup.data.transfers.length} transferências</li>
+                  <li>{backup.data.challenges.length} desafios</li>
+                  <li>{backup.data.challenge_deposits.length} depósitos</li>
+                </ul>
+                <Button onClick={() => setConfirmRestore(true)} disabled={restoring} className="gap-2">
+                  {restoring && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Restaurar
+                </Button>
+              </div>
+            )}
+
+            {restoreSummary && (
+              <div className="rounded-xl bg-primary/5 border border-primary/20 p-4 text-sm space-y-1">
+                <p className="font-medium text-primary">Restauração concluída</p>
+                <p>{restoreSummary.categoriesCreated} categorias criadas, {restoreSummary.categoriesMatched} já existentes</p>
+                <p>{restoreSummary.budgetsRestored} meses de orçamento restaurados</p>
+                <p>{restoreSummary.rulesCreated} regras criadas</p>
+                <p>{restoreSummary.accountsCreated} contas criadas, {restoreSummary.accountsMatched} já existentes</p>
+                <p>{restoreSummary.recurringCreated} despesas recorrentes criadas</p>
+                <p>{restoreSummary.installmentPurchasesCreated} compras parceladas criadas</p>
+                <p>{restoreSummary.expensesCreated} despesas criadas, {restoreSummary.expensesRelinked} religadas à categoria</p>
+                <p>{restoreSummary.paymentsCreated} receitas criadas, {restoreSummary.transfersCreated} transferências</p>
+                <p>{restoreSummary.challengesCreated} desafios criados, {restoreSummary.depositsRestored} depósitos restaurados</p>
+                <p>{restoreSummary.duplicatesSkipped} itens iguais aos já existentes ignorados</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <AlertDialog open={confirmRestore} onOpenChange={setConfirmRestore}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Restaurar backup?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Os dados do arquivo serão adicionados a esta conta. Nada será excluído, e o que já existe não é duplicado.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={handleRestore}>
+                Restaurar
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </AppLayout>
+  );
+}
@@ -1,22 +1,52 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useNotifications } from '@/hooks/useNotifications';
+import { usePeriod } from '@/hooks/usePeriod';
+import { useExpenseFilters } from '@/hooks/useExpenseFilters';
+import { useCategorySuggestions } from '@/hooks/useCategorySuggestions';
 import { supabase } from '@/integrations/supabase/client';
 import { AppLayout } from '@/components/layout/AppLayout';
+import { PeriodSelector } from '@/components/period/PeriodSelector';
+import { ImportCsvDialog } from '@/components/expenses/ImportCsvDialog';
+import { ImportStatementDialog } from '@/components/expenses/ImportStatementDialog';
+import { ExpenseFilterBar } from '@/components/expenses/ExpenseFilterBar';
+import { ExpenseBulkBar } from '@/components/expenses/ExpenseBulkBar';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import { 
   Receipt, 
   Plus,
   Pencil,
   Trash2,
+  Check,
   Loader2,
   Calendar,
-  Filter
+  Upload,
+  FileSpreadsheet,
+  Landmark,
+  Wand2,
+  Sparkles
 } from 'lucide-react';
-import { formatCurrency, formatDate } from '@/lib/formatters';
+import { formatCurrency, formatDate, formatPercent } from '@/lib/formatters';
+import { MAX_INSTALLMENTS, buildInstallments } from '@/lib/creditCard';
+import {
+  ExpenseCursor,
+  ExpenseTotals,
+  applyExpenseFilters,
+  applyExpensePage,
+  applyExpenseSort,
+  countActiveFilters,
+  fetchExpenseTotals,
+  getNextCursor,
+} from '@/lib/expenseFilters';
+import { CategoryRule, fetchCategoryRules, findMatchingRule } from '@/lib/rules';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import {
@@ -43,6 +73,12 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 
 interface Expense {
   id: string;
@@ -50,10 +86,21 @@ interface Expense {
   description: string | null;
   expense_date: string;
   category_id: string | null;
+  account_id: string | null;
+  is_pending: boolean;
+  installment_purchase_id: string | null;
+  installment_number: number | null;
+  tags: string[];
   category?: {
     name: string;
     color: string;
   };
+  account?: {
+    name: string;
+  } | null;
+  installment?: {
+    installment_count: number;
+  } | null;
 }
 
 interface Category {
@@ -62,29 +109,59 @@ interface Category {
   color: string;
 }
 
+// Comma-separated tags as typed in the form, trimmed and without repeats
+function parseTags(value: string) {
+  return [...new Set(value.split(',').map(tag => tag.trim()).filter(Boolean))];
+}
+
 export default function Expenses() {
   const { user } = useAuth();
+  const { checkBudgets } = useNotifications();
+  const { period } = usePeriod();
+  const { filters, resetFilters } = useExpenseFilters();
+  const { suggest, learn } = useCategorySuggestions(user?.id);
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [rules, setRules] = useState<CategoryRule[]>([]);
   const [loading, setLoading] = useState(true);
+  const [totals, setTotals] = useState<ExpenseTotals>({ count: 0, total: 0 });
+  const [cursor, setCursor] = useState<ExpenseCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Pages requested for older filters are dropped when they arrive
+  const requestRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
   const [deleteId, setDeleteId] = useState<string | null>(null);
-  const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [csvImportOpen, setCsvImportOpen] = useState(false);
+  const [statementImportOpen, setStatementImportOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Row clicked last, where a shift-click range starts
+  const lastSelectedRef = useRef<number | null>(null);
 
   // Form state
   const [amount, setAmount] = useState('');
   const [description, setDescription] = useState('');
   const [expenseDate, setExpenseDate] = useState(new Date().toISOString().split('T')[0]);
   const [categoryId, setCategoryId] = useState<string>('');
+  // Once the category is picked by hand, rules stop changing it
+  const [categoryTouched, setCategoryTouched] = useState(false);
+  const [accountId, setAccountId] = useState<string>('');
+  const [isInstallment, setIsInstallment] = useState(false);
+  const [installmentCount, setInstallmentCount] = useState('2');
+  const [tags, setTags] = useState('');
 
   useEffect(() => {
     if (user) {
+      clearSelection();
       fetchData();
     }
-  }, [user]);
+  }, [user, period.from, period.to, filters]);
 
   const fetchData = async () => {
+    // Taken before anything is awaited, so only the latest call writes its results
+    const request = ++requestRef.current;
+
     try {
       // Fetch categories
       const { data: categoriesData } = await supabase
@@ -97,19 +174,18 @@ export default function Expenses() {
         setCategories(categoriesData);
       }
 
-      // Fetch expenses
-      const { data: expensesData } = await supabase
-        .from('expenses')
-        .select(`
-          *,
-          category:categories(name, color)
-        `)
-        .eq('user_id', user!.id)
-        .order('expense_date', { ascending: false });
+      setRules(await fetchCategoryRules(user!.id));
 
-      if (expensesData) {
-        setExpenses(expensesData as Expense[]);
-      }
+      // Fetch the first page and the totals of the whole filtered set
+      const [page, totalsData] = await Promise.all([
+        fetchPage(null),
+        fetchExpenseTotals(period, filters),
+      ]);
+      if (request !== requestRef.current) return;
+
+      setExpenses(page);
+      setCursor(getNextCursor(page, filters, null));
+      setTotals(totalsData);
     } catch (error) {
       console.error('Error fetching data:', error);
     } finally {
@@ -117,6 +193,83 @@ export default function Expenses() {
     }
   };
 
+  // One page of the expenses matching the period, search and filters in the URL
+  const fetchPage = async (from: ExpenseCursor | null) => {
+    const query = supabase
+      .from('expenses')
+      .select(`
+        *,
+        category:categories(name, color),
+        account:accounts(name),
+        installment:installment_purchases(installment_count)
+      `)
+      .eq('user_id', user!.id)
+      .gte('expense_date', period.from)
+      .lte('expense_date', period.to);
+
+    const { data, error } = await applyExpensePage(
+      applyExpenseSort(applyExpenseFilters(query, filters), filters),
+      filters,
+      from
+    );
+
+    if (error) throw error;
+    return data as Expense[];
+  };
+
+  const loadMore = async () => {
+    if (!cursor || loadingMore) return;
+
+    const request = requestRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(cursor);
+      if (request !== requestRef.current) return;
+
+      setExpenses(prev => [...prev, ...page]);
+      setCursor(getNextCursor(page, filters, cursor));
+    } catch (error) {
+      console.error('Error fetching expenses:', error);
+      toast.error('Erro ao carregar mais despesas');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const parsedAmount = parseFloat(amount);
+  const matchedRule = !editingExpense && !categoryTouched
+    ? findMatchingRule(rules, {
+        description,
+        amount: isNaN(parsedAmount) ? 0 : parsedAmount,
+        expense_date: expenseDate,
+      })
+    : null;
+
+  // Pre-fills the category of a new expense from the rules as it is typed
+  const ruleCategoryId = matchedRule?.category_id ?? '';
+  useEffect(() => {
+    if (!dialogOpen || editingExpense || categoryTouched) return;
+    setCategoryId(ruleCategoryId);
+  }, [ruleCategoryId, dialogOpen, editingExpense, categoryTouched]);
+
+  // Learned from the categories given to past expenses with similar descriptions
+  const categoryById = new Map(categories.map(c => [c.id, c]));
+  const suggestions = editingExpense
+    ? []
+    : suggest(description).filter(s => categoryById.has(s.categoryId));
+
+  // Loads the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !cursor) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [cursor, loadingMore]);
+
   const handleSubmit = async () => {
     const amountValue = parseFloat(amount);
     if (isNaN(amountValue) || amountValue <= 0) {
@@ -133,11 +286,58 @@ export default function Expenses() {
             description: description || null,
             expense_date: expenseDate,
             category_id: categoryId || null,
+            account_id: accountId || null,
+            tags: parseTags(tags),
+            // Saving a pending recurring bill confirms its amount
+            is_pending: false,
           })
           .eq('id', editingExpense.id);
 
         if (error) throw error;
         toast.success('Despesa atualizada!');
+      } else if (isInstallment) {
+        const count = parseInt(installmentCount);
+        if (isNaN(count) || count < 2 || count > MAX_INSTALLMENTS) {
+          toast.error(`Informe de 2 a ${MAX_INSTALLMENTS} parcelas`);
+          return;
+        }
+
+        const { data: purchase, error } = await supabase
+          .from('installment_purchases')
+          .insert({
+            user_id: user!.id,
+            account_id: accountId || null,
+            category_id: categoryId || null,
+            description: description || null,
+            total_amount: amountValue,
+            installment_count: count,
+            purchase_date: expenseDate,
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+
+        const { error: installmentsError } = await supabase
+          .from('expenses')
+          .insert(buildInstallments(expenseDate, amountValue, count).map(installment => ({
+            user_id: user!.id,
+            amount: installment.amount,
+            description: description || null,
+            expense_date: installment.date,
+            category_id: categoryId || null,
+            account_id: accountId || null,
+            installment_purchase_id: purchase.id,
+            installment_number: installment.number,
+            tags: parseTags(tags),
+          })));
+
+        if (installmentsError) {
+          // Don't leave a purchase without its installments behind
+          await supabase.from('installment_purchases').delete().eq('id', purchase.id);
+          throw installmentsError;
+        }
+        toast.success(`Compra parcelada em ${count}x registrada!`);
       } else {
         const { error } = await supabase
           .from('expenses')
@@ -147,12 +347,21 @@ export default function Expenses() {
             description: description || null,
             expense_date: expenseDate,
             category_id: categoryId || null,
+            account_id: accountId || null,
+            tags: parseTags(tags),
           });
 
         if (error) throw error;
         toast.success('Despesa registrada!');
       }
 
+      learn(description, categoryId || null, {
+        previous: editingExpense
+          ? { description: editingExpense.description, categoryId: editingExpense.category_id }
+          : undefined,
+        corrected: suggestions.length > 0 && suggestions[0].categoryId !== categoryId,
+      });
+      checkBudgets([expenseDate]);
       resetForm();
       fetchData();
     } catch (error) {
@@ -160,6 +369,40 @@ export default function Expenses() {
     }
   };
 
+  const confirmPending = async (expenseId: string) => {
+    try {
+      const { error } = await supabase
+        .from('expenses')
+        .update({ is_pending: false })
+        .eq('id', expenseId);
+
+      if (error) throw error;
+      setExpenses(prev => prev.map(e => e.id === expenseId ? { ...e, is_pending: false } : e));
+      toast.success('Despesa confirmada!');
+    } catch (error) {
+      toast.error('Erro ao confirmar despesa');
+    }
+  };
+
+  const handleDeleteInstallments = async () => {
+    const purchaseId = expenses.find(e => e.id === deleteId)?.installment_purchase_id;
+    if (!purchaseId) return;
+
+    try {
+      const { error } = await supabase
+        .from('installment_purchases')
+        .delete()
+        .eq('id', purchaseId);
+
+      if (error) throw error;
+      toast.success('Parcelas excluídas!');
+      setDeleteId(null);
+      fetchData();
+    } catch (error) {
+      toast.error('Erro ao excluir parcelas');
+    }
+  };
+
   const handleDelete = async () => {
     if (!deleteId) return;
 
@@ -178,11 +421,120 @@ export default function Expenses() {
     }
   };
 
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    lastSelectedRef.current = null;
+  };
+
+  // Shift-click selects every loaded row between the last one clicked and this one
+  const toggleSelected = (index: number, range: boolean) => {
+    const id = expenses[index].id;
+    const selecting = !selectedIds.has(id);
+    const anchor = lastSelectedRef.current;
+    const [start, end] = range && anchor !== null && anchor < expenses.length
+      ? [Math.min(anchor, index), Math.max(anchor, index)]
+      : [index, index];
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      expenses.slice(start, end + 1).forEach(e => {
+        if (selecting) next.add(e.id);
+        else next.delete(e.id);
+      });
+      return next;
+    });
+    lastSelectedRef.current = index;
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(expenses.map(e => e.id)) : new Set());
+    lastSelectedRef.current = null;
+  };
+
+  const selectedExpenses = expenses.filter(e => selectedIds.has(e.id));
+
+  const handleBulkRecategorize = async (newCategoryId: string | null) => {
+    const ids = selectedExpenses.map(e => e.id);
+    try {
+      const { error } = await supabase
+        .from('expenses')
+        .update({ category_id: newCategoryId })
+        .in('id', ids);
+
+      if (error) throw error;
+      selectedExpenses.forEach(e => learn(e.description, newCategoryId, {
+        previous: { description: e.description, categoryId: e.category_id },
+      }));
+      toast.success(ids.length === 1 ? 'Despesa recategorizada!' : `${ids.length} despesas recategorizadas!`);
+      checkBudgets(selectedExpenses.map(e => e.expense_date));
+      clearSelection();
+      fetchData();
+    } catch (error) {
+      toast.error('Erro ao recategorizar despesas');
+    }
+  };
+
+  const handleBulkChangeDate = async (date: string) => {
+    const ids = selectedExpenses.map(e => e.id);
+    try {
+      const { error } = await supabase
+        .from('expenses')
+        .update({ expense_date: date })
+        .in('id', ids);
+
+      if (error) throw error;
+      toast.success(ids.length === 1 ? 'Data atualizada!' : `Data de ${ids.length} despesas atualizada!`);
+      checkBudgets([date]);
+      clearSelection();
+      fetchData();
+    } catch (error) {
+      toast.error('Erro ao mudar a data das despesas');
+    }
+  };
+
+  const handleBulkAddTag = async (tag: string) => {
+    try {
+      const { error } = await supabase.rpc('add_expense_tag', {
+        p_expense_ids: selectedExpenses.map(e => e.id),
+        p_tag: tag,
+      });
+
+      if (error) throw error;
+      toast.success(`Tag "${tag}" adicionada!`);
+      clearSelection();
+      fetchData();
+    } catch (error) {
+      toast.error('Erro ao adicionar tag');
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    const ids = selectedExpenses.map(e => e.id);
+    try {
+      const { error } = await supabase
+        .from('expenses')
+        .delete()
+        .in('id', ids);
+
+      if (error) throw error;
+      toast.success(ids.length === 1 ? 'Despesa excluída!' : `${ids.length} despesas excluídas!`);
+      clearSelection();
+      fetchData();
+    } catch (error) {
+      toast.error('Erro ao excluir despesas');
+    }
+  };
+
   const resetForm = () => {
     setAmount('');
     setDescription('');
     setExpenseDate(new Date().toISOString().split('T')[0]);
     setCategoryId('');
+    setCategoryTouched(false);
+    setAccountId('');
+    setIsInstallment(false);
+    setInstallmentCount('2');
+    setTags('');
     setEditingExpense(null);
     setDialogOpen(false);
   };
@@ -193,14 +545,20 @@ export default function Expenses() {
     setDescription(expense.description || '');
     setExpenseDate(expense.expense_date);
     setCategoryId(expense.category_id || '');
+    setAccountId(expense.account_id || '');
+    setTags(expense.tags.join(', '));
     setDialogOpen(true);
   };
 
-  const filteredExpenses = filterCategory === 'all'
-    ? expenses
-    : expenses.filter(e => e.category_id === filterCategory);
+  const deletingInstallment = !!expenses.find(e => e.id === deleteId)?.installment_purchase_id;
 
-  const totalFiltered = filteredExpenses.reduce((sum, e) => sum + Number(e.amount), 0);
+  const installmentTotal = parseFloat(amount);
+  const installments = parseInt(installmentCount);
+  const installmentPreview = installmentTotal > 0 && installments >= 2 && installments <= MAX_INSTALLMENTS
+    ? buildInstallments(expenseDate, installmentTotal, installments)
+    : null;
+
+  const isFiltered = countActiveFilters(filters) > 0;
 
   if (loading) {
     return (
@@ -225,119 +583,241 @@ export default function Expenses() {
             <p className="text-muted-foreground">Registre e acompanhe seus gastos</p>
           </div>
 
-          <Dialog open={dialogOpen} onOpenChange={(open) => {
-            if (!open) resetForm();
-            setDialogOpen(open);
-          }}>
-            <DialogTrigger asChild>
-              <Button className="gap-2">
-                <Plus className="w-4 h-4" />
-                Nova Despesa
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>
-                  {editingExpense ? 'Editar Despesa' : 'Nova Despesa'}
-                </DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4 pt-4">
-                <div className="space-y-2">
-                  <Label>Valor</Label>
-                  <Input
-                    type="number"
-                    value={amount}
-                    onChange={(e) => setAmount(e.target.value)}
-                    placeholder="0,00"
-                  />
-                </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <PeriodSelector />
 
-                <div className="space-y-2">
-                  <Label>Categoria</Label>
-                  <Select value={categoryId} onValueChange={setCategoryId}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Selecione uma categoria" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {categories.map((cat) => (
-                        <SelectItem key={cat.id} value={cat.id}>
-                          <div className="flex items-center gap-2">
-                            <div 
-                              className="w-3 h-3 rounded-full"
-                              style={{ backgroundColor: cat.color }}
-                            />
-                            {cat.name}
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <Upload className="w-4 h-4" />
+                  Importar
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => setCsvImportOpen(true)}>
+                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                  Planilha CSV
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setStatementImportOpen(true)}>
+                  <Landmark className="w-4 h-4 mr-2" />
+                  Extrato OFX/QIF
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Dialog open={dialogOpen} onOpenChange={(open) => {
+              if (!open) resetForm();
+              setDialogOpen(open);
+            }}>
+              <DialogTrigger asChild>
+                <Button className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  Nova Despesa
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingExpense ? 'Editar Despesa' : 'Nova Despesa'}
+                  </DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 pt-4">
+                  <div className="space-y-2">
+                    <Label>{isInstallment ? 'Valor total' : 'Valor'}</Label>
+                    <Input
+                      type="number"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder="0,00"
+                    />
+                  </div>
 
-                <div className="space-y-2">
-                  <Label>Data</Label>
-                  <Input
-                    type="date"
-                    value={expenseDate}
-                    onChange={(e) => setExpenseDate(e.target.value)}
-                  />
-                </div>
+                  {!editingExpense && (
+                    <div className="rounded-xl border border-border p-3 space-y-3">
+                      <div className="flex items-center justify-between gap-4">
+                        <div>
+                          <Label htmlFor="is-installment">Parcelado</Label>
+                          <p className="text-xs text-muted-foreground">
+                            Lança uma parcela por mês nas próximas faturas
+                          </p>
+                        </div>
+                        <Switch
+                          id="is-installment"
+                          checked={isInstallment}
+                          onCheckedChange={setIsInstallment}
+                        />
+                      </div>
+                      {isInstallment && (
+                        <div className="flex items-center gap-3">
+                          <Input
+                            type="number"
+                            min={2}
+                            max={MAX_INSTALLMENTS}
+                            value={installmentCount}
+                            onChange={(e) => setInstallmentCount(e.target.value)}
+                            className="w-20"
+                          />
+                          <span className="text-sm text-muted-foreground">
+                            {installmentPreview
+                              ? `${installmentPreview.length}x de ${formatCurrency(installmentPreview[installmentPreview.length - 1].amount)}`
+                              : 'parcelas'}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label>Categoria</Label>
+                    <Select
+                      value={categoryId}
+                      onValueChange={(value) => {
+                        setCategoryId(value);
+                        setCategoryTouched(true);
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione uma categoria" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map((cat) => (
+                          <SelectItem key={cat.id} value={cat.id}>
+                            <div className="flex items-center gap-2">
+                              <div 
+                                className="w-3 h-3 rounded-full"
+                                style={{ backgroundColor: cat.color }}
+                              />
+                              {cat.name}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {matchedRule && (
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        <Wand2 className="w-3 h-3" />
+                        Pela regra "{matchedRule.name}"
+                      </p>
+                    )}
+                    {suggestions.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <span className="text-xs text-muted-foreground flex items-center gap-1">
+                          <Sparkles className="w-3 h-3" />
+                          Sugestões:
+                        </span>
+                        {suggestions.map((suggestion) => {
+                          const category = categoryById.get(suggestion.categoryId)!;
+                          return (
+                            <button
+                              key={suggestion.categoryId}
+                              type="button"
+                              onClick={() => {
+                                setCategoryId(suggestion.categoryId);
+                                setCategoryTouched(true);
+                              }}
+                              className={cn(
+                                'text-xs px-2 py-0.5 rounded-full border flex items-center gap-1.5 transition-colors',
+                                categoryId === suggestion.categoryId
+                                  ? 'border-primary bg-primary/10'
+                                  : 'border-border hover:bg-muted'
+                              )}
+                            >
+                              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: category.color }} />
+                              {category.name}
+                              <span className="text-muted-foreground">{formatPercent(suggestion.confidence * 100)}</span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
 
-                <div className="space-y-2">
-                  <Label>Descrição (opcional)</Label>
-                  <Textarea
-                    value={description}
-                    onChange={(e) => setDescription(e.target.value)}
-                    placeholder="Ex: Compras no supermercado"
-                    rows={2}
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label>Conta</Label>
+                    <AccountSelect value={accountId} onValueChange={setAccountId} />
+                  </div>
 
-                <Button onClick={handleSubmit} className="w-full">
-                  {editingExpense ? 'Salvar' : 'Registrar'}
-                </Button>
-              </div>
-            </DialogContent>
-          </Dialog>
+                  <div className="space-y-2">
+                    <Label>{isInstallment ? 'Data da compra' : 'Data'}</Label>
+                    <Input
+                      type="date"
+                      value={expenseDate}
+                      onChange={(e) => setExpenseDate(e.target.value)}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Descrição (opcional)</Label>
+                    <Textarea
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      placeholder="Ex: Compras no supermercado"
+                      rows={2}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Tags (opcional)</Label>
+                    <Input
+                      value={tags}
+                      onChange={(e) => setTags(e.target.value)}
+                      placeholder="Ex: viagem, trabalho"
+                    />
+                  </div>
+
+                  <Button onClick={handleSubmit} className="w-full">
+                    {editingExpense ? 'Salvar' : 'Registrar'}
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         {/* Filter */}
         <Card>
           <CardContent className="pt-4">
-            <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
-              <div className="flex items-center gap-2">
-                <Filter className="w-4 h-4 text-muted-foreground" />
-                <Select value={filterCategory} onValueChange={setFilterCategory}>
-                  <SelectTrigger className="w-48">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">Todas as categorias</SelectItem>
-                    {categories.map((cat) => (
-                      <SelectItem key={cat.id} value={cat.id}>
-                        <div className="flex items-center gap-2">
-                          <div 
-                            className="w-3 h-3 rounded-full"
-                            style={{ backgroundColor: cat.color }}
-                          />
-                          {cat.name}
-                        </div>
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+            <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center justify-between">
+              <ExpenseFilterBar categories={categories} />
 
-              <div className="text-right">
+              <div className="text-right shrink-0">
                 <p className="text-sm text-muted-foreground">Total</p>
-                <p className="text-xl font-bold text-primary">{formatCurrency(totalFiltered)}</p>
+                <p className="text-xl font-bold text-primary">{formatCurrency(totals.total)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {totals.count === 1 ? '1 despesa' : `${totals.count} despesas`}
+                </p>
               </div>
             </div>
           </CardContent>
         </Card>
 
+        {selectedExpenses.length > 0 && (
+          <ExpenseBulkBar
+            count={selectedExpenses.length}
+            categories={categories}
+            onClear={clearSelection}
+            onRecategorize={handleBulkRecategorize}
+            onChangeDate={handleBulkChangeDate}
+            onAddTag={handleBulkAddTag}
+            onDelete={handleBulkDelete}
+          />
+        )}
+
         {/* Expenses List */}
-        {filteredExpenses.length === 0 ? (
+        {expenses.length === 0 && isFiltered ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <Receipt className="w-12 h-12 text-muted-foreground mb-4" />
+              <h3 className="font-semibold mb-2">Nenhuma despesa encontrada</h3>
+              <p className="text-muted-foreground text-sm mb-4">
+                Nenhuma despesa do período corresponde à busca e aos filtros
+              </p>
+              <Button variant="outline" onClick={resetFilters}>
+                Limpar filtros
+              </Button>
+            </CardContent>
+          </Card>
+        ) : expenses.length === 0 ? (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12 text-center">
               <Receipt className="w-12 h-12 text-muted-foreground mb-4" />
@@ -353,14 +833,42 @@ export default function Expenses() {
           </Card>
         ) : (
           <div className="space-y-3">
-            {filteredExpenses.map((expense) => (
+            <div className="flex items-center gap-3 px-4">
+              <Checkbox
+                id="select-all-expenses"
+                checked={
+                  selectedExpenses.length === 0
+                    ? false
+                    : selectedExpenses.length === expenses.length || 'indeterminate'
+                }
+                onCheckedChange={(checked) => toggleAll(checked === true)}
+              />
+              <Label htmlFor="select-all-expenses" className="text-sm font-normal text-muted-foreground">
+                {cursor
+                  ? `Selecionar as ${expenses.length} carregadas`
+                  : 'Selecionar todas'}
+              </Label>
+            </div>
+
+            {expenses.map((expense, index) => (
               <Card 
                 key={expense.id} 
-                className="hover:shadow-soft transition-all"
+                className={cn(
+                  'hover:shadow-soft transition-all',
+                  selectedIds.has(expense.id) && 'border-primary/40 bg-primary/5'
+                )}
               >
                 <CardContent className="py-4">
                   <div className="flex items-center justify-between gap-4">
                     <div className="flex items-center gap-4 flex-1 min-w-0">
+                      <Checkbox
+                        checked={selectedIds.has(expense.id)}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          toggleSelected(index, e.shiftKey);
+                        }}
+                        aria-label="Selecionar despesa"
+                      />
                       {expense.category ? (
                         <div 
                           className="w-10 h-10 rounded-xl flex items-center justify-center shrink-0"
@@ -393,6 +901,21 @@ export default function Expenses() {
                               {expense.category.name}
                             </span>
                           )}
+                          {expense.installment && (
+                            <Badge variant="secondary">
+                              {expense.installment_number}/{expense.installment.installment_count}
+                            </Badge>
+                          )}
+                          {expense.is_pending && (
+                            <Badge variant="outline" className="border-accent text-accent">
+                              A confirmar
+                            </Badge>
+                          )}
+                          {expense.tags.map((tag) => (
+                            <Badge key={tag} variant="outline" className="hidden sm:inline-flex font-normal">
+                              #{tag}
+                            </Badge>
+                          ))}
                         </div>
                         <div className="flex items-center gap-2 text-sm text-muted-foreground">
                           <Calendar className="w-3 h-3" />
@@ -400,11 +923,24 @@ export default function Expenses() {
                           {expense.description && (
                             <span className="truncate">• {expense.description}</span>
                           )}
+                          {expense.account && (
+                            <span className="truncate">• {expense.account.name}</span>
+                          )}
                         </div>
                       </div>
                     </div>
 
                     <div className="flex gap-1 shrink-0">
+                      {expense.is_pending && (
+                        <Button 
+                          variant="ghost" 
+                          size="icon" 
+                          className="h-8 w-8 text-primary hover:text-primary"
+                          onClick={() => confirmPending(expense.id)}
+                        >
+                          <Check className="w-4 h-4" />
+                        </Button>
+                      )}
                       <Button 
                         variant="ghost" 
                         size="icon" 
@@ -426,22 +962,54 @@ export default function Expenses() {
                 </CardContent>
               </Card>
             ))}
+
+            {cursor && (
+              <div ref={sentinelRef} className="flex justify-center py-2">
+                <Button variant="ghost" onClick={loadMore} disabled={loadingMore} className="gap-2">
+                  {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Carregar mais
+                </Button>
+              </div>
+            )}
           </div>
         )}
 
+        <ImportCsvDialog
+          open={csvImportOpen}
+          onOpenChange={setCsvImportOpen}
+          categories={categories}
+          rules={rules}
+          onImported={fetchData}
+        />
+
+        <ImportStatementDialog
+          open={statementImportOpen}
+          onOpenChange={setStatementImportOpen}
+          categories={categories}
+          rules={rules}
+          onImported={fetchData}
+        />
+
         {/* Delete Confirmation */}
         <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
           <AlertDialogContent>
             <AlertDialogHeader>
               <AlertDialogTitle>Excluir despesa?</AlertDialogTitle>
               <AlertDialogDescription>
-                Esta ação não pode ser desfeita.
+                {deletingInstallment
+                  ? 'Esta despesa é uma parcela. Você pode excluir só ela ou a compra inteira.'
+                  : 'Esta ação não pode ser desfeita.'}
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
               <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              {deletingInstallment && (
+                <AlertDialogAction onClick={handleDeleteInstallments} className="bg-destructive hover:bg-destructive/90">
+                  Excluir todas as parcelas
+                </AlertDialogAction>
+              )}
               <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">
-                Excluir
+                {deletingInstallment ? 'Excluir esta parcela' : 'Excluir'}
               </AlertDialogAction>
             </AlertDialogFooter>
           </AlertDialogContent>
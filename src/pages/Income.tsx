@@ -0,0 +1,269 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { usePeriod } from '@/hooks/usePeriod';
+import { supabase } from '@/integrations/supabase/client';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { PeriodSelector } from '@/components/period/PeriodSelector';
+import { IncomeDialog } from '@/components/income/IncomeDialog';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  TrendingUp,
+  Plus,
+  Pencil,
+  Trash2,
+  Loader2,
+  Calendar
+} from 'lucide-react';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import { INCOME_CATEGORIES, IncomeCategory, Payment, getIncomeCategory, sumIncome } from '@/lib/income';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+export default function Income() {
+  const { user } = useAuth();
+  const { period } = usePeriod();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPayment, setEditingPayment] = useState<Payment | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user, period.from, period.to]);
+
+  const fetchData = async () => {
+    try {
+      const { data: paymentsData } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('user_id', user!.id)
+        .gte('payment_date', period.from)
+        .lte('payment_date', period.to)
+        .order('payment_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (paymentsData) {
+        setPayments(paymentsData);
+      }
+    } catch (error) {
+      console.error('Error fetching income:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+
+    try {
+      const { error } = await supabase
+        .from('payments')
+        .delete()
+        .eq('id', deleteId);
+
+      if (error) throw error;
+      toast.success('Receita excluída!');
+      setDeleteId(null);
+      fetchData();
+    } catch (error) {
+      toast.error('Erro ao excluir receita');
+    }
+  };
+
+  const openCreate = () => {
+    setEditingPayment(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (payment: Payment) => {
+    setEditingPayment(payment);
+    setDialogOpen(true);
+  };
+
+  const total = sumIncome(payments);
+  const totalsByCategory = (Object.keys(INCOME_CATEGORIES) as IncomeCategory[])
+    .map(key => ({
+      key,
+      ...INCOME_CATEGORIES[key],
+      total: sumIncome(payments.filter(p => getIncomeCategory(p.category) === INCOME_CATEGORIES[key])),
+    }))
+    .filter(item => item.total > 0);
+
+  if (loading) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2">
+              <TrendingUp className="w-8 h-8 text-primary" />
+              Receitas
+            </h1>
+            <p className="text-muted-foreground">
+              Total em {period.label}: {formatCurrency(total)}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <PeriodSelector />
+            <Button className="gap-2" onClick={openCreate}>
+              <Plus className="w-4 h-4" />
+              Nova Receita
+            </Button>
+          </div>
+        </div>
+
+        {/* Totals by type */}
+        {totalsByCategory.length > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+            {totalsByCategory.map((item) => (
+              <Card key={item.key}>
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: item.color }} />
+                    {item.label}
+                  </div>
+                  <p className="text-lg font-bold mt-1">{formatCurrency(item.total)}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* Income List */}
+        {payments.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <TrendingUp className="w-12 h-12 text-muted-foreground mb-4" />
+              <h3 className="font-semibold mb-2">Nenhuma receita no período</h3>
+              <p className="text-muted-foreground text-sm mb-4">
+                Registre salário, freelas, dividendos e outras entradas
+              </p>
+              <Button onClick={openCreate} className="gap-2">
+                <Plus className="w-4 h-4" />
+                Adicionar Receita
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {payments.map((payment) => {
+              const category = getIncomeCategory(payment.category);
+
+              return (
+                <Card key={payment.id} className="hover:shadow-soft transition-all">
+                  <CardContent className="py-4">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-4 flex-1 min-w-0">
+                        <div
+                          className="w-10 h-10 rounded-xl flex items-center justify-center shrink-0"
+                          style={{ backgroundColor: `${category.color}20` }}
+                        >
+                          <TrendingUp className="w-4 h-4" style={{ color: category.color }} />
+                        </div>
+
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span className="font-semibold text-primary">
+                              {formatCurrency(Number(payment.amount))}
+                            </span>
+                            <span
+                              className="text-xs px-2 py-0.5 rounded-full"
+                              style={{
+                                backgroundColor: `${category.color}20`,
+                                color: category.color
+                              }}
+                            >
+                              {category.label}
+                            </span>
+                            {payment.source && (
+                              <span className="text-sm font-medium truncate">{payment.source}</span>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Calendar className="w-3 h-3" />
+                            <span>{formatDate(`${payment.payment_date}T00:00:00`)}</span>
+                            {payment.description && (
+                              <span className="truncate">• {payment.description}</span>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="flex gap-1 shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => openEdit(payment)}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => setDeleteId(payment.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <IncomeDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          payment={editingPayment}
+          onSaved={fetchData}
+        />
+
+        {/* Delete Confirmation */}
+        <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Excluir receita?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Esta ação não pode ser desfeita.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">
+                Excluir
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </AppLayout>
+  );
+}
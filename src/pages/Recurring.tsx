@@ -0,0 +1,546 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useNotifications } from '@/hooks/useNotifications';
+import { supabase } from '@/integrations/supabase/client';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Repeat,
+  Plus,
+  Pencil,
+  Trash2,
+  Loader2,
+  CalendarClock
+} from 'lucide-react';
+import { addDays } from 'date-fns';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import { toISODate } from '@/lib/dates';
+import {
+  FREQUENCY_LABELS,
+  Frequency,
+  RecurringExpense,
+  describeRule,
+  getNextOccurrence,
+  materializeRecurringExpenses,
+} from '@/lib/recurrence';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface Category {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export default function Recurring() {
+  const { user } = useAuth();
+  const { checkBudgets } = useNotifications();
+  const [rules, setRules] = useState<RecurringExpense[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<RecurringExpense | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+
+  // Form state
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [frequency, setFrequency] = useState<Frequency>('monthly');
+  const [dayOfMonth, setDayOfMonth] = useState('');
+  const [intervalDays, setIntervalDays] = useState('');
+  const [startDate, setStartDate] = useState(toISODate(new Date()));
+  const [endDate, setEndDate] = useState('');
+  const [requiresConfirmation, setRequiresConfirmation] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      const { data: categoriesData } = await supabase
+        .from('categories')
+        .select('id, name, color')
+        .eq('user_id', user!.id)
+        .order('name');
+
+      if (categoriesData) {
+        setCategories(categoriesData);
+      }
+
+      const { data: rulesData } = await supabase
+        .from('recurring_expenses')
+        .select('*')
+        .eq('user_id', user!.id)
+        .order('description');
+
+      if (rulesData) {
+        setRules(rulesData);
+      }
+    } catch (error) {
+      console.error('Error fetching recurring expenses:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const amountValue = parseFloat(amount);
+    if (!description.trim()) {
+      toast.error('Informe a descrição');
+      return;
+    }
+    if (isNaN(amountValue) || amountValue <= 0) {
+      toast.error('Informe um valor válido');
+      return;
+    }
+
+    const day = parseInt(dayOfMonth);
+    const interval = parseInt(intervalDays);
+    if (frequency === 'monthly' && dayOfMonth && (isNaN(day) || day < 1 || day > 31)) {
+      toast.error('Dia do mês deve ser entre 1 e 31');
+      return;
+    }
+    if (frequency === 'custom' && (isNaN(interval) || interval < 1)) {
+      toast.error('Informe o intervalo em dias');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      toast.error('A data final deve ser depois do início');
+      return;
+    }
+
+    const values = {
+      description: description.trim(),
+      amount: amountValue,
+      category_id: categoryId || null,
+      account_id: accountId || null,
+      frequency,
+      day_of_month: frequency === 'monthly' && dayOfMonth ? day : null,
+      interval_days: frequency === 'custom' ? interval : null,
+      start_date: startDate,
+      end_date: endDate || null,
+      requires_confirmation: requiresConfirmation,
+    };
+
+    try {
+      if (editingRule) {
+        const { error } = await supabase
+          .from('recurring_expenses')
+          .update(values)
+          .eq('id', editingRule.id);
+
+        if (error) throw error;
+        toast.success('Recorrência atualizada!');
+      } else {
+        const { error } = await supabase
+          .from('recurring_expenses')
+          .insert({ ...values, user_id: user!.id });
+
+        if (error) throw error;
+        toast.success('Recorrência criada!');
+      }
+
+      resetForm();
+      fetchData();
+
+      const created = await materializeRecurringExpenses(user!.id);
+      if (created.length > 0) {
+        toast.success(`${created.length} despesas recorrentes lançadas`);
+        checkBudgets(created);
+      }
+    } catch (error) {
+      toast.error('Erro ao salvar recorrência');
+    }
+  };
+
+  const toggleActive = async (rule: RecurringExpense, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('recurring_expenses')
+        .update({ is_active: isActive })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: isActive } : r));
+    } catch (error) {
+      toast.error('Erro ao atualizar recorrência');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+
+    try {
+      const { error } = await supabase
+        .from('recurring_expenses')
+        .delete()
+        .eq('id', deleteId);
+
+      if (error) throw error;
+      toast.success('Recorrência excluída!');
+      setDeleteId(null);
+      fetchData();
+    } catch (error) {
+      toast.error('Erro ao excluir recorrência');
+    }
+  };
+
+  const resetForm = () => {
+    setDescription('');
+    setAmount('');
+    setCategoryId('');
+    setAccountId('');
+    setFrequency('monthly');
+    setDayOfMonth('');
+    setIntervalDays('');
+    setStartDate(toISODate(new Date()));
+    setEndDate('');
+    setRequiresConfirmation(false);
+    setEditingRule(null);
+    setDialogOpen(false);
+  };
+
+  const openEdit = (rule: RecurringExpense) => {
+    setEditingRule(rule);
+    setDescription(rule.description);
+    setAmount(rule.amount.toString());
+    setCategoryId(rule.category_id || '');
+    setAccountId(rule.account_id || '');
+    setFrequency(rule.frequency as Frequency);
+    setDayOfMonth(rule.day_of_month?.toString() || '');
+    setIntervalDays(rule.interval_days?.toString() || '');
+    setStartDate(rule.start_date);
+    setEndDate(rule.end_date || '');
+    setRequiresConfirmation(rule.requires_confirmation);
+    setDialogOpen(true);
+  };
+
+  const yesterday = toISODate(addDays(new Date(), -1));
+  const monthlyTotal = rules
+    .filter(r => r.is_active && r.frequency === 'monthly')
+    .reduce((sum, r) => sum + Number(r.amount), 0);
+
+  if (loading) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2">
+              <Repeat className="w-8 h-8 text-primary" />
+              Recorrentes
+            </h1>
+            <p className="text-muted-foreground">
+              Assinaturas e contas fixas • {formatCurrency(monthlyTotal)} por mês
+            </p>
+          </div>
+
+          <Dialog open={dialogOpen} onOpenChange={(open) => {
+            if (!open) resetForm();
+            setDialogOpen(open);
+          }}>
+            <DialogTrigger asChild>
+              <Button className="gap-2">
+                <Plus className="w-4 h-4" />
+                Nova Recorrência
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>
+                  {editingRule ? 'Editar Recorrência' : 'Nova Recorrência'}
+                </DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 pt-4">
+                <div className="space-y-2">
+                  <Label>Descrição</Label>
+                  <Input
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="Ex: Aluguel, Netflix, Academia"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Valor</Label>
+                    <Input
+                      type="number"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder="0,00"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Categoria</Label>
+                    <Select value={categoryId} onValueChange={setCategoryId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map((cat) => (
+                          <SelectItem key={cat.id} value={cat.id}>
+                            <div className="flex items-center gap-2">
+                              <div
+                                className="w-3 h-3 rounded-full"
+                                style={{ backgroundColor: cat.color }}
+                              />
+                              {cat.name}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Conta</Label>
+                  <AccountSelect value={accountId} onValueChange={setAccountId} />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Frequência</Label>
+                    <Select value={frequency} onValueChange={(value) => setFrequency(value as Frequency)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(FREQUENCY_LABELS) as Frequency[]).map((key) => (
+                          <SelectItem key={key} value={key}>
+                            {FREQUENCY_LABELS[key]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {frequency === 'monthly' && (
+                    <div className="space-y-2">
+                      <Label>Dia do mês</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={dayOfMonth}
+                        onChange={(e) => setDayOfMonth(e.target.value)}
+                        placeholder="Dia do início"
+                      />
+                    </div>
+                  )}
+
+                  {frequency === 'custom' && (
+                    <div className="space-y-2">
+                      <Label>A cada (dias)</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={intervalDays}
+                        onChange={(e) => setIntervalDays(e.target.value)}
+                        placeholder="Ex: 15"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Início</Label>
+                    <Input
+                      type="date"
+                      value={startDate}
+                      onChange={(e) => setStartDate(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Fim (opcional)</Label>
+                    <Input
+                      type="date"
+                      value={endDate}
+                      onChange={(e) => setEndDate(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between gap-4 rounded-xl border border-border p-3">
+                  <div>
+                    <Label htmlFor="requires-confirmation">Valor variável</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Lança como pendente para você confirmar o valor real
+                    </p>
+                  </div>
+                  <Switch
+                    id="requires-confirmation"
+                    checked={requiresConfirmation}
+                    onCheckedChange={setRequiresConfirmation}
+                  />
+                </div>
+
+                <Button onClick={handleSubmit} className="w-full">
+                  {editingRule ? 'Salvar' : 'Criar'}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Rules List */}
+        {rules.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <Repeat className="w-12 h-12 text-muted-foreground mb-4" />
+              <h3 className="font-semibold mb-2">Nenhuma recorrência</h3>
+              <p className="text-muted-foreground text-sm mb-4">
+                Cadastre aluguel, assinaturas e contas fixas para lançá-las automaticamente
+              </p>
+              <Button onClick={() => setDialogOpen(true)} className="gap-2">
+                <Plus className="w-4 h-4" />
+                Criar Primeira Recorrência
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule) => {
+              const category = categories.find(c => c.id === rule.category_id);
+              const next = rule.is_active ? getNextOccurrence(rule, yesterday) : null;
+
+              return (
+                <Card
+                  key={rule.id}
+                  className={cn("hover:shadow-soft transition-all", !rule.is_active && "opacity-60")}
+                >
+                  <CardContent className="py-4">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-4 flex-1 min-w-0">
+                        <div
+                          className="w-10 h-10 rounded-xl flex items-center justify-center shrink-0"
+                          style={{ backgroundColor: `${category?.color ?? '#64748b'}20` }}
+                        >
+                          <Repeat className="w-4 h-4" style={{ color: category?.color ?? '#64748b' }} />
+                        </div>
+
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span className="font-semibold truncate">{rule.description}</span>
+                            <span className="text-sm font-medium">{formatCurrency(Number(rule.amount))}</span>
+                            {rule.requires_confirmation && <Badge variant="outline">Variável</Badge>}
+                            {category && (
+                              <span
+                                className="text-xs px-2 py-0.5 rounded-full"
+                                style={{
+                                  backgroundColor: `${category.color}20`,
+                                  color: category.color
+                                }}
+                              >
+                                {category.name}
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <CalendarClock className="w-3 h-3" />
+                            <span>{FREQUENCY_LABELS[rule.frequency as Frequency]} • {describeRule(rule)}</span>
+                            {next && <span className="truncate">• próxima em {formatDate(`${next}T00:00:00`)}</span>}
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Switch
+                          checked={rule.is_active}
+                          onCheckedChange={(checked) => toggleActive(rule, checked)}
+                          className="mr-2"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => openEdit(rule)}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => setDeleteId(rule.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Delete Confirmation */}
+        <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Excluir recorrência?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Novos lançamentos deixam de ser gerados. As despesas já lançadas são mantidas.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">
+                Excluir
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,654 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useNotifications } from '@/hooks/useNotifications';
+import { supabase } from '@/integrations/supabase/client';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Wand2,
+  Plus,
+  Pencil,
+  Trash2,
+  Loader2,
+  ArrowUp,
+  ArrowDown,
+  FlaskConical,
+  Sparkles
+} from 'lucide-react';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import {
+  CategoryRule,
+  RULE_MATCH_LABELS,
+  RuleCandidateExpense,
+  RuleConditions,
+  RuleMatchType,
+  WEEKDAY_LABELS,
+  applyRulesToUncategorized,
+  describeRuleConditions,
+  fetchCategoryRules,
+  fetchRuleCandidates,
+  findMatchingRule,
+  matchesRule,
+  validateRulePattern,
+} from '@/lib/rules';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface Category {
+  id: string;
+  name: string;
+  color: string;
+}
+
+const PREVIEW_LIMIT = 8;
+
+export default function Rules() {
+  const { user } = useAuth();
+  const { checkBudgets } = useNotifications();
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategoryRule | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  // Existing expenses the rule being edited is tested against, loaded on demand
+  const [candidates, setCandidates] = useState<RuleCandidateExpense[] | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [matchType, setMatchType] = useState<RuleMatchType>('contains');
+  const [pattern, setPattern] = useState('');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [weekdays, setWeekdays] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      const { data: categoriesData } = await supabase
+        .from('categories')
+        .select('id, name, color')
+        .eq('user_id', user!.id)
+        .order('name');
+
+      if (categoriesData) {
+        setCategories(categoriesData);
+      }
+
+      setRules(await fetchCategoryRules(user!.id));
+    } catch (error) {
+      console.error('Error fetching rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const parseAmount = (value: string) => (value === '' ? null : Number(value));
+
+  const formConditions: RuleConditions = {
+    match_type: matchType,
+    pattern: pattern.trim() || null,
+    min_amount: parseAmount(minAmount),
+    max_amount: parseAmount(maxAmount),
+    weekdays: weekdays.map(Number),
+  };
+
+  const handleSubmit = async () => {
+    const { min_amount: min, max_amount: max } = formConditions;
+    if (!name.trim()) {
+      toast.error('Informe o nome da regra');
+      return;
+    }
+    if (!categoryId) {
+      toast.error('Selecione a categoria');
+      return;
+    }
+    if ((min !== null && (isNaN(min) || min < 0)) || (max !== null && (isNaN(max) || max < 0))) {
+      toast.error('Informe valores válidos');
+      return;
+    }
+    if (min !== null && max !== null && min > max) {
+      toast.error('O valor mínimo deve ser menor que o máximo');
+      return;
+    }
+    const patternError = validateRulePattern(matchType, pattern.trim());
+    if (patternError) {
+      toast.error(patternError);
+      return;
+    }
+
+    const values = {
+      ...formConditions,
+      name: name.trim(),
+      category_id: categoryId,
+    };
+
+    try {
+      if (editingRule) {
+        const { error } = await supabase
+          .from('category_rules')
+          .update(values)
+          .eq('id', editingRule.id);
+
+        if (error) throw error;
+        toast.success('Regra atualizada!');
+      } else {
+        // New rules go to the end, after the ones already in place
+        const position = rules.reduce((max, r) => Math.max(max, r.position), -1) + 1;
+        const { error } = await supabase
+          .from('category_rules')
+          .insert({ ...values, position, user_id: user!.id });
+
+        if (error) throw error;
+        toast.success('Regra criada!');
+      }
+
+      resetForm();
+      fetchData();
+    } catch (error) {
+      toast.error('Erro ao salvar regra');
+    }
+  };
+
+  const toggleActive = async (rule: CategoryRule, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('category_rules')
+        .update({ is_active: isActive })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: isActive } : r));
+    } catch (error) {
+      toast.error('Erro ao atualizar regra');
+    }
+  };
+
+  // Swaps the rule with its neighbour; the list order is the order rules are tried in
+  const moveRule = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const positioned = reordered.map((rule, position) => ({ ...rule, position }));
+    setRules(positioned);
+
+    try {
+      const changed = positioned.filter((rule, position) => rules[position]?.id !== rule.id || rules[position].position !== position);
+      const results = await Promise.all(changed.map(rule =>
+        supabase.from('category_rules').update({ position: rule.position }).eq('id', rule.id)
+      ));
+
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+    } catch (error) {
+      toast.error('Erro ao reordenar regras');
+      fetchData();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+
+    try {
+      const { error } = await supabase
+        .from('category_rules')
+        .delete()
+        .eq('id', deleteId);
+
+      if (error) throw error;
+      toast.success('Regra excluída!');
+      setDeleteId(null);
+      fetchData();
+    } catch (error) {
+      toast.error('Erro ao excluir regra');
+    }
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      const updated = await applyRulesToUncategorized(user!.id, rules);
+      if (updated.length === 0) {
+        toast.info('Nenhuma despesa sem categoria corresponde às regras');
+        return;
+      }
+
+      toast.success(updated.length === 1 ? '1 despesa categorizada!' : `${updated.length} despesas categorizadas!`);
+      checkBudgets(updated.map(e => e.expense_date));
+      setCandidates(null);
+    } catch (error) {
+      toast.error('Erro ao aplicar regras');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const testRule = async () => {
+    if (candidates) return;
+
+    setTesting(true);
+    try {
+      setCandidates(await fetchRuleCandidates(user!.id));
+    } catch (error) {
+      toast.error('Erro ao carregar despesas');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const resetForm = () => {
+    setName('');
+    setCategoryId('');
+    setMatchType('contains');
+    setPattern('');
+    setMinAmount('');
+    setMaxAmount('');
+    setWeekdays([]);
+    setEditingRule(null);
+    setDialogOpen(false);
+  };
+
+  const openEdit = (rule: CategoryRule) => {
+    setEditingRule(rule);
+    setName(rule.name);
+    setCategoryId(rule.category_id);
+    setMatchType(rule.match_type as RuleMatchType);
+    setPattern(rule.pattern || '');
+    setMinAmount(rule.min_amount?.toString() || '');
+    setMaxAmount(rule.max_amount?.toString() || '');
+    setWeekdays(rule.weekdays.map(String));
+    setDialogOpen(true);
+  };
+
+  const categoryById = new Map(categories.map(c => [c.id, c]));
+  const patternError = validateRulePattern(matchType, pattern.trim());
+  const matches = candidates && !patternError
+    ? candidates.filter(expense => matchesRule(formConditions, expense))
+    : [];
+  // Matches that an earlier rule already takes, so this one wouldn't apply to them
+  const earlierRules = editingRule ? rules.filter(r => r.position < editingRule.position) : rules;
+  const shadowed = matches.filter(expense => findMatchingRule(earlierRules, expense)).length;
+
+  if (loading) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2">
+              <Wand2 className="w-8 h-8 text-primary" />
+              Regras
+            </h1>
+            <p className="text-muted-foreground">
+              Categorize despesas automaticamente ao registrar e importar
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={handleApply}
+              disabled={applying || !rules.some(r => r.is_active)}
+            >
+              {applying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+              Aplicar às sem categoria
+            </Button>
+
+            <Dialog open={dialogOpen} onOpenChange={(open) => {
+              if (!open) resetForm();
+              setDialogOpen(open);
+            }}>
+              <DialogTrigger asChild>
+                <Button className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  Nova Regra
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingRule ? 'Editar Regra' : 'Nova Regra'}
+                  </DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 pt-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Nome</Label>
+                      <Input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Ex: Aplicativos de transporte"
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Categoria</Label>
+                      <Select value={categoryId} onValueChange={setCategoryId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {categories.map((cat) => (
+                            <SelectItem key={cat.id} value={cat.id}>
+                              <div className="flex items-center gap-2">
+                                <div
+                                  className="w-3 h-3 rounded-full"
+                                  style={{ backgroundColor: cat.color }}
+                                />
+                                {cat.name}
+                              </div>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Descrição</Label>
+                    <div className="flex gap-2">
+                      <Select value={matchType} onValueChange={(value) => setMatchType(value as RuleMatchType)}>
+                        <SelectTrigger className="w-44 shrink-0">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(RULE_MATCH_LABELS) as RuleMatchType[]).map((key) => (
+                            <SelectItem key={key} value={key}>
+                              {RULE_MATCH_LABELS[key]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={pattern}
+                        onChange={(e) => setPattern(e.target.value)}
+                        placeholder={matchType === 'regex' ? 'Ex: uber|99 ?pop' : 'Ex: uber'}
+                        className={cn(patternError && 'border-destructive')}
+                      />
+                    </div>
+                    <p className={cn('text-xs', patternError ? 'text-destructive' : 'text-muted-foreground')}>
+                      {patternError ?? 'Em branco vale para qualquer descrição. Maiúsculas e acentos são ignorados.'}
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Valor mínimo</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={minAmount}
+                        onChange={(e) => setMinAmount(e.target.value)}
+                        placeholder="Qualquer"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Valor máximo</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={maxAmount}
+                        onChange={(e) => setMaxAmount(e.target.value)}
+                        placeholder="Qualquer"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Dias da semana</Label>
+                    <ToggleGroup
+                      type="multiple"
+                      variant="outline"
+                      size="sm"
+                      value={weekdays}
+                      onValueChange={setWeekdays}
+                      className="justify-start flex-wrap"
+                    >
+                      {WEEKDAY_LABELS.map((label, day) => (
+                        <ToggleGroupItem key={day} value={String(day)} className="w-11">
+                          {label}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                    <p className="text-xs text-muted-foreground">Nenhum selecionado vale para todos os dias</p>
+                  </div>
+
+                  <div className="rounded-xl border border-border p-3 space-y-3">
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label>Testar</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Veja quais despesas já registradas a regra encontra
+                        </p>
+                      </div>
+                      {!candidates && (
+                        <Button variant="outline" size="sm" className="gap-2" onClick={testRule} disabled={testing}>
+                          {testing ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+                          Testar
+                        </Button>
+                      )}
+                    </div>
+
+                    {candidates && (
+                      <div className="space-y-2">
+                        <p className="text-sm font-medium">
+                          {matches.length === 1 ? '1 despesa encontrada' : `${matches.length} despesas encontradas`}
+                          {' '}de {candidates.length}
+                        </p>
+                        {shadowed > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {shadowed === 1
+                              ? '1 delas já é pega por uma regra anterior'
+                              : `${shadowed} delas já são pegas por regras anteriores`}
+                          </p>
+                        )}
+                        <div className="space-y-1">
+                          {matches.slice(0, PREVIEW_LIMIT).map((expense) => {
+                            const category = expense.category_id ? categoryById.get(expense.category_id) : null;
+                            return (
+                              <div key={expense.id} className="flex items-center justify-between gap-2 text-sm">
+                                <span className="truncate">
+                                  <span className="text-muted-foreground">{formatDate(`${expense.expense_date}T00:00:00`)}</span>
+                                  {' '}{expense.description || 'Sem descrição'}
+                                </span>
+                                <span className="flex items-center gap-2 shrink-0">
+                                  {category && (
+                                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: category.color }} title={category.name} />
+                                  )}
+                                  {formatCurrency(Number(expense.amount))}
+                                </span>
+                              </div>
+                            );
+                          })}
+                          {matches.length > PREVIEW_LIMIT && (
+                            <p className="text-xs text-muted-foreground">e mais {matches.length - PREVIEW_LIMIT}</p>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  <Button onClick={handleSubmit} className="w-full">
+                    {editingRule ? 'Salvar' : 'Criar'}
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+
+        {/* Rules List */}
+        {rules.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <Wand2 className="w-12 h-12 text-muted-foreground mb-4" />
+              <h3 className="font-semibold mb-2">Nenhuma regra</h3>
+              <p className="text-muted-foreground text-sm mb-4">
+                Crie regras para que as despesas já cheguem com a categoria certa
+              </p>
+              <Button onClick={() => setDialogOpen(true)} className="gap-2">
+                <Plus className="w-4 h-4" />
+                Criar Primeira Regra
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              As regras são testadas de cima para baixo e a primeira que combinar define a categoria.
+            </p>
+            {rules.map((rule, index) => {
+              const category = categoryById.get(rule.category_id);
+
+              return (
+                <Card
+                  key={rule.id}
+                  className={cn("hover:shadow-soft transition-all", !rule.is_active && "opacity-60")}
+                >
+                  <CardContent className="py-4">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-4 flex-1 min-w-0">
+                        <div className="flex flex-col shrink-0">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => moveRule(index, -1)}
+                            disabled={index === 0}
+                          >
+                            <ArrowUp className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => moveRule(index, 1)}
+                            disabled={index === rules.length - 1}
+                          >
+                            <ArrowDown className="w-3 h-3" />
+                          </Button>
+                        </div>
+
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span className="font-semibold truncate">{rule.name}</span>
+                            {category && (
+                              <span
+                                className="text-xs px-2 py-0.5 rounded-full"
+                                style={{
+                                  backgroundColor: `${category.color}20`,
+                                  color: category.color
+                                }}
+                              >
+                                {category.name}
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-sm text-muted-foreground truncate">
+                            {describeRuleConditions(rule)}
+                          </p>
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Switch
+                          checked={rule.is_active}
+                          onCheckedChange={(checked) => toggleActive(rule, checked)}
+                          className="mr-2"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => openEdit(rule)}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => setDeleteId(rule.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Delete Confirmation */}
+        <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Excluir regra?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Novas despesas deixam de ser categorizadas por ela. As despesas já categorizadas são mantidas.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">
+                Excluir
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </AppLayout>
+  );
+}
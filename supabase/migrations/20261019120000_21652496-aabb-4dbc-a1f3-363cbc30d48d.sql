@@ -0,0 +1,16 @@
+-- Track the bank's transaction id on imported rows
+ALTER TABLE public.expenses
+  ADD COLUMN external_id TEXT,
+  ADD COLUMN external_account TEXT;
+
+ALTER TABLE public.payments
+  ADD COLUMN external_id TEXT,
+  ADD COLUMN external_account TEXT;
+
+-- Re-importing the same statement never creates duplicates (NULLs stay distinct,
+-- so manually entered rows are not affected)
+ALTER TABLE public.expenses
+  ADD CONSTRAINT expenses_user_external_unique UNIQUE (user_id, external_account, external_id);
+
+ALTER TABLE public.payments
+  ADD CONSTRAINT payments_user_external_unique UNIQUE (user_id, external_account, external_id);
@@ -0,0 +1,41 @@
+-- Create recurring_expenses table (rent, subscriptions, bills)
+CREATE TABLE public.recurring_expenses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  amount DECIMAL(12,2) NOT NULL,
+  description TEXT NOT NULL,
+  frequency TEXT NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('weekly', 'monthly', 'yearly', 'custom')),
+  interval_days INTEGER CHECK (interval_days IS NULL OR interval_days > 0),
+  day_of_month INTEGER CHECK (day_of_month IS NULL OR day_of_month BETWEEN 1 AND 31),
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  requires_confirmation BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_generated_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Link generated expenses to their rule; variable bills wait for confirmation
+ALTER TABLE public.expenses
+  ADD COLUMN recurring_expense_id UUID REFERENCES public.recurring_expenses(id) ON DELETE SET NULL,
+  ADD COLUMN is_pending BOOLEAN NOT NULL DEFAULT false;
+
+-- An occurrence is materialized at most once, even with several tabs open
+ALTER TABLE public.expenses
+  ADD CONSTRAINT expenses_recurring_occurrence_unique UNIQUE (recurring_expense_id, expense_date);
+
+-- Enable Row Level Security
+ALTER TABLE public.recurring_expenses ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for recurring_expenses
+CREATE POLICY "Users can view their own recurring expenses" ON public.recurring_expenses
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own recurring expenses" ON public.recurring_expenses
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own recurring expenses" ON public.recurring_expenses
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own recurring expenses" ON public.recurring_expenses
+  FOR DELETE USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.recurring_expenses;
@@ -0,0 +1,11 @@
+-- Income entries describe where the money came from
+ALTER TABLE public.payments
+  ADD COLUMN source TEXT,
+  ADD COLUMN description TEXT,
+  ADD COLUMN category TEXT NOT NULL DEFAULT 'salary'
+    CHECK (category IN ('salary', 'freelance', 'dividends', 'thirteenth', 'other'));
+
+-- Credits imported from bank statements are not necessarily salary
+UPDATE public.payments SET category = 'other' WHERE external_id IS NOT NULL;
+
+CREATE INDEX payments_user_date_idx ON public.payments (user_id, payment_date);
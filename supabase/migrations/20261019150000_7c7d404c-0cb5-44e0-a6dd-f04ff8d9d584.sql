@@ -0,0 +1,62 @@
+-- Create accounts table (bank accounts, wallets and cards)
+CREATE TABLE public.accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'checking' CHECK (type IN ('checking', 'savings', 'cash', 'credit_card', 'investment')),
+  color TEXT NOT NULL DEFAULT '#10b981',
+  opening_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+  opening_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  is_archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create transfers table (money moved between the user's own accounts)
+CREATE TABLE public.transfers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  to_account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  description TEXT,
+  transfer_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (from_account_id <> to_account_id)
+);
+
+-- Every expense and income entry can be tied to the account it moved
+ALTER TABLE public.expenses
+  ADD COLUMN account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.payments
+  ADD COLUMN account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.recurring_expenses
+  ADD COLUMN account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transfers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for accounts
+CREATE POLICY "Users can view their own accounts" ON public.accounts
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own accounts" ON public.accounts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own accounts" ON public.accounts
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own accounts" ON public.accounts
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- RLS Policies for transfers
+CREATE POLICY "Users can view their own transfers" ON public.transfers
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own transfers" ON public.transfers
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own transfers" ON public.transfers
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own transfers" ON public.transfers
+  FOR DELETE USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.accounts;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.transfers;
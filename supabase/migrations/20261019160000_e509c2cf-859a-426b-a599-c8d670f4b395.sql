@@ -0,0 +1,37 @@
+-- Credit card billing cycle
+ALTER TABLE public.accounts
+  ADD COLUMN closing_day INTEGER CHECK (closing_day IS NULL OR closing_day BETWEEN 1 AND 31),
+  ADD COLUMN due_day INTEGER CHECK (due_day IS NULL OR due_day BETWEEN 1 AND 31);
+
+-- Create installment_purchases table (purchases split "em Nx")
+CREATE TABLE public.installment_purchases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  description TEXT,
+  total_amount DECIMAL(12,2) NOT NULL CHECK (total_amount > 0),
+  installment_count INTEGER NOT NULL CHECK (installment_count BETWEEN 2 AND 48),
+  purchase_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Each installment is a regular expense; removing the purchase removes all of them
+ALTER TABLE public.expenses
+  ADD COLUMN installment_purchase_id UUID REFERENCES public.installment_purchases(id) ON DELETE CASCADE,
+  ADD COLUMN installment_number INTEGER;
+
+-- Enable Row Level Security
+ALTER TABLE public.installment_purchases ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for installment_purchases
+CREATE POLICY "Users can view their own installment purchases" ON public.installment_purchases
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own installment purchases" ON public.installment_purchases
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own installment purchases" ON public.installment_purchases
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own installment purchases" ON public.installment_purchases
+  FOR DELETE USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.installment_purchases;
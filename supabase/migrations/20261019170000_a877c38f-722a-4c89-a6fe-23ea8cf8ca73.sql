@@ -0,0 +1,4 @@
+-- Remember which generator produced the deposit plan
+ALTER TABLE public.challenge_40k
+  ADD COLUMN template TEXT NOT NULL DEFAULT 'ladder'
+    CHECK (template IN ('ladder', 'reverse_ladder', 'weeks52', 'fixed', 'envelopes', 'split'));
@@ -0,0 +1,9 @@
+-- Allow several challenges/goals per user, each with a name and an optional deadline
+ALTER TABLE public.challenge_40k
+  DROP CONSTRAINT challenge_40k_user_id_key;
+
+ALTER TABLE public.challenge_40k
+  ADD COLUMN name TEXT NOT NULL DEFAULT 'Desafio 40K',
+  ADD COLUMN deadline DATE;
+
+CREATE INDEX challenge_40k_user_id_idx ON public.challenge_40k (user_id);
@@ -0,0 +1,5 @@
+-- Challenges get a start date so progress can be paced against the deadline
+ALTER TABLE public.challenge_40k
+  ADD COLUMN start_date DATE NOT NULL DEFAULT CURRENT_DATE;
+
+UPDATE public.challenge_40k SET start_date = created_at::date;
@@ -0,0 +1,12 @@
+-- Challenges can move each completed deposit between two accounts, so savings
+-- show up in the account balances instead of only in the challenge grid
+ALTER TABLE public.challenge_40k
+  ADD COLUMN from_account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  ADD COLUMN to_account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  ADD CONSTRAINT challenge_40k_accounts_check CHECK (from_account_id IS NULL OR from_account_id <> to_account_id);
+
+-- The transfer recorded when the deposit was completed; removed when it's reverted
+ALTER TABLE public.challenge_deposits
+  ADD COLUMN transfer_id UUID REFERENCES public.transfers(id) ON DELETE SET NULL;
+
+CREATE INDEX challenge_deposits_completed_at_idx ON public.challenge_deposits (challenge_id, completed_at);
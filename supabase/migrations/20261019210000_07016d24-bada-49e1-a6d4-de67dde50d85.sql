@@ -0,0 +1,20 @@
+-- Audit trail of deposit status changes, used for undo and the per-deposit history
+CREATE TABLE public.challenge_deposit_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  deposit_id UUID NOT NULL REFERENCES public.challenge_deposits(id) ON DELETE CASCADE,
+  from_status TEXT NOT NULL CHECK (from_status IN ('pending', 'completed', 'skipped')),
+  to_status TEXT NOT NULL CHECK (to_status IN ('pending', 'completed', 'skipped')),
+  is_undo BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX challenge_deposit_events_deposit_id_idx ON public.challenge_deposit_events (deposit_id, created_at);
+
+ALTER TABLE public.challenge_deposit_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are append-only: there are no update or delete policies
+CREATE POLICY "Users can view their own deposit events" ON public.challenge_deposit_events
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own deposit events" ON public.challenge_deposit_events
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,54 @@
+-- Create notifications table (in-app inbox)
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL DEFAULT 'budget' CHECK (type IN ('budget')),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  link TEXT,
+  -- Budget alerts: which category crossed which threshold (in %) in which month
+  category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+  threshold INTEGER,
+  period_key TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Each threshold fires once per category and month
+  UNIQUE (user_id, category_id, threshold, period_key)
+);
+
+CREATE INDEX notifications_user_id_created_at_idx ON public.notifications (user_id, created_at DESC);
+
+-- Create notification settings table (one row per user)
+CREATE TABLE public.notification_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  budget_thresholds INTEGER[] NOT NULL DEFAULT '{50,80,100}',
+  browser_notifications BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for notifications
+CREATE POLICY "Users can view their own notifications" ON public.notifications
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own notifications" ON public.notifications
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own notifications" ON public.notifications
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own notifications" ON public.notifications
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- RLS Policies for notification_settings
+CREATE POLICY "Users can view their own notification settings" ON public.notification_settings
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own notification settings" ON public.notification_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own notification settings" ON public.notification_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own notification settings" ON public.notification_settings
+  FOR DELETE USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
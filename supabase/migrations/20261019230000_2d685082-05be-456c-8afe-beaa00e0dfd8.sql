@@ -0,0 +1,9 @@
+-- Category budgets get a period and a start day (for pay cycles that don't
+-- follow the calendar month). When rollover_from is set, what was left or
+-- overspent in each period since that date carries into the next one.
+ALTER TABLE public.categories
+  ADD COLUMN budget_period TEXT NOT NULL DEFAULT 'monthly'
+    CHECK (budget_period IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  ADD COLUMN budget_start_day INTEGER NOT NULL DEFAULT 1
+    CHECK (budget_start_day BETWEEN 1 AND 31),
+  ADD COLUMN rollover_from DATE;
@@ -0,0 +1,37 @@
+-- Budget history: the amount planned for each category from a month on.
+-- A month without a row inherits the latest earlier one, so past months keep
+-- the budget they had when categories.budget changes.
+CREATE TABLE public.category_budgets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category_id UUID NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  -- First day of the month
+  month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (category_id, month)
+);
+
+CREATE INDEX category_budgets_user_id_month_idx ON public.category_budgets (user_id, month);
+
+-- Existing budgets apply from the month the category was created
+INSERT INTO public.category_budgets (user_id, category_id, month, amount)
+SELECT user_id, id, date_trunc('month', created_at)::date, budget
+FROM public.categories
+WHERE budget > 0;
+
+-- Enable Row Level Security
+ALTER TABLE public.category_budgets ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for category_budgets
+CREATE POLICY "Users can view their own category budgets" ON public.category_budgets
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own category budgets" ON public.category_budgets
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own category budgets" ON public.category_budgets
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own category budgets" ON public.category_budgets
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Enable realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.category_budgets;
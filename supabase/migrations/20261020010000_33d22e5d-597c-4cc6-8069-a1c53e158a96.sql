@@ -0,0 +1,7 @@
+-- Expense filters run in the database: by date within a user, and by a
+-- substring of the description (ILIKE '%term%' needs a trigram index)
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX expenses_user_date_idx ON public.expenses (user_id, expense_date);
+CREATE INDEX expenses_description_trgm_idx ON public.expenses
+  USING gin (description extensions.gin_trgm_ops);
@@ -0,0 +1,33 @@
+-- Count and sum of the expenses matching the expenses list filters, so the
+-- total covers the whole filtered set while the list is loaded page by page.
+-- p_search is an ILIKE pattern; NULL arguments don't filter.
+CREATE OR REPLACE FUNCTION public.get_expense_totals(
+  p_from DATE,
+  p_to DATE,
+  p_search TEXT DEFAULT NULL,
+  p_category_ids UUID[] DEFAULT NULL,
+  p_uncategorized BOOLEAN DEFAULT false,
+  p_min_amount DECIMAL DEFAULT NULL,
+  p_max_amount DECIMAL DEFAULT NULL
+)
+RETURNS TABLE (expense_count BIGINT, total_amount DECIMAL)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT count(*), COALESCE(sum(amount), 0)
+  FROM public.expenses
+  WHERE user_id = auth.uid()
+    AND expense_date BETWEEN p_from AND p_to
+    AND (p_search IS NULL OR description ILIKE p_search)
+    AND (p_min_amount IS NULL OR amount >= p_min_amount)
+    AND (p_max_amount IS NULL OR amount <= p_max_amount)
+    AND (
+      (p_category_ids IS NULL AND NOT p_uncategorized)
+      OR category_id = ANY (p_category_ids)
+      OR (p_uncategorized AND category_id IS NULL)
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_expense_totals TO authenticated;
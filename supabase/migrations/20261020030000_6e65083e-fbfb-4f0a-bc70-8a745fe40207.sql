@@ -0,0 +1,25 @@
+-- Free-form tags on expenses, added to many expenses at once from the list
+ALTER TABLE public.expenses ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX expenses_tags_idx ON public.expenses USING gin (tags);
+
+-- Appends a tag to the given expenses of the current user, skipping the ones
+-- that already have it. Returns how many expenses were tagged.
+CREATE OR REPLACE FUNCTION public.add_expense_tag(p_expense_ids UUID[], p_tag TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH tagged AS (
+    UPDATE public.expenses
+    SET tags = array_append(tags, p_tag)
+    WHERE user_id = auth.uid()
+      AND id = ANY (p_expense_ids)
+      AND NOT (p_tag = ANY (tags))
+    RETURNING id
+  )
+  SELECT count(*)::integer FROM tagged;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.add_expense_tag TO authenticated;
@@ -0,0 +1,40 @@
+-- Rules that pick the category of an expense from its description, amount and
+-- weekday. They are tried in position order and the first match wins; empty
+-- conditions match anything.
+CREATE TABLE public.category_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category_id UUID NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  match_type TEXT NOT NULL DEFAULT 'contains'
+    CHECK (match_type IN ('contains', 'starts_with', 'regex')),
+  -- Null matches any description
+  pattern TEXT,
+  min_amount DECIMAL(12,2),
+  max_amount DECIMAL(12,2),
+  -- 0 = Sunday ... 6 = Saturday; empty matches any day
+  weekdays SMALLINT[] NOT NULL DEFAULT '{}'
+    CHECK (weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  position INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)
+);
+
+CREATE INDEX category_rules_user_id_position_idx ON public.category_rules (user_id, position);
+
+-- Enable Row Level Security
+ALTER TABLE public.category_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for category_rules
+CREATE POLICY "Users can view their own category rules" ON public.category_rules
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own category rules" ON public.category_rules
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own category rules" ON public.category_rules
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own category rules" ON public.category_rules
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Enable realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.category_rules;
@@ -0,0 +1,13 @@
+-- Deposit events may only point at deposits of the user's own challenges
+DROP POLICY "Users can create their own deposit events" ON public.challenge_deposit_events;
+
+CREATE POLICY "Users can create their own deposit events" ON public.challenge_deposit_events
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.challenge_deposits
+      JOIN public.challenge_40k ON challenge_40k.id = challenge_deposits.challenge_id
+      WHERE challenge_deposits.id = challenge_deposit_events.deposit_id
+      AND challenge_40k.user_id = auth.uid()
+    )
+  );